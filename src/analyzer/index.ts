@@ -1,14 +1,34 @@
 import { parse } from '@babel/parser';
-import traverse from '@babel/traverse';
-import * as t from '@babel/types';
+import traverse, { NodePath } from '@babel/traverse';
 import * as fs from 'fs';
 import * as path from 'path';
+import { FormikMigratePlugin, getRules, MigrationRule } from '../plugins';
+import type { TargetName } from '../transformer/targets';
+import { buildWrapperRegistry, ComponentIndex, FormikWrapper, getWrapperUsages, indexComponents, WrapperUsage } from './wrappers';
+
+export type { FormikWrapper, WrapperUsage } from './wrappers';
+
+/**
+ * Patterns the built-in rules detect; plugins add their own
+ */
+export type BuiltinPatternType =
+  | 'useFormik'
+  | 'Formik'
+  | 'Form'
+  | 'Field'
+  | 'FieldArray'
+  | 'FastField'
+  | 'ErrorMessage'
+  | 'useField'
+  | 'useFormikContext'
+  | 'connect'
+  | 'withFormik';
 
 /**
  * Formik usage pattern detected in code
  */
 export interface FormikPattern {
-  type: 'useFormik' | 'Formik' | 'Field' | 'FieldArray' | 'FastField' | 'ErrorMessage' | 'useField';
+  type: BuiltinPatternType | (string & {});
   location: { file: string; line: number; column: number };
   complexity: 'simple' | 'medium' | 'complex';
   canAutoConvert: boolean;
@@ -22,6 +42,8 @@ export interface FileAnalysis {
   filePath: string;
   hasFormik: boolean;
   patterns: FormikPattern[];
+  /** Wrapper components rendered here: indirect Formik usage (set by `analyzeCodebase`) */
+  wrapperUsages: WrapperUsage[];
   linesOfCode: number;
   estimatedEffort: 'low' | 'medium' | 'high';
 }
@@ -46,6 +68,10 @@ export interface CodebaseAnalysis {
   };
   autoConvertible: number;
   manualReviewNeeded: number;
+  /** Call sites of wrapper components */
+  indirectUsages: number;
+  /** Project components built on Formik, most used first */
+  wrappers: FormikWrapper[];
   estimatedHours: number;
   estimatedSavings: number; // hours saved by using this tool
   files: FileAnalysis[];
@@ -55,10 +81,21 @@ export interface CodebaseAnalysis {
  * Analyzer class - detects Formik usage patterns
  */
 export class FormikAnalyzer {
+  private readonly rules: MigrationRule[];
+
+  /**
+   * @param plugins Plugins whose rules detect patterns after the built-in ones, in order
+   * @param target Form library the verdicts are for: patterns it can't convert need manual review
+   */
+  constructor(plugins: FormikMigratePlugin[] = [], target?: TargetName) {
+    this.rules = getRules(plugins, target);
+  }
+
   /**
-   * Analyze a single file
+   * Analyze a single file. When `components` is given, the file's
+   * components are indexed into it for the cross-file wrapper pass.
    */
-  analyzeFile(filePath: string): FileAnalysis {
+  analyzeFile(filePath: string, components?: Map<string, ComponentIndex>): FileAnalysis {
     const code = fs.readFileSync(filePath, 'utf-8');
     const patterns: FormikPattern[] = [];
     
@@ -78,89 +115,39 @@ export class FormikAnalyzer {
           }
         },
 
-        // Detect useFormik hook
-        CallExpression: (callPath) => {
-          if (
-            t.isIdentifier(callPath.node.callee) &&
-            callPath.node.callee.name === 'useFormik'
-          ) {
-            const complexity = this.analyzeUseFormikComplexity(callPath);
-            patterns.push({
-              type: 'useFormik',
-              location: {
-                file: filePath,
-                line: callPath.node.loc?.start.line || 0,
-                column: callPath.node.loc?.start.column || 0,
-              },
-              complexity,
-              canAutoConvert: complexity === 'simple',
-              reason: complexity !== 'simple' 
-                ? this.getComplexityReason(callPath) 
-                : undefined,
-            });
+        // Detect the patterns of every rule, the first matching one wins
+        'CallExpression|JSXElement': (patternPath: NodePath) => {
+          const rule = this.rules.find((candidate) => candidate.node === patternPath.node.type && candidate.match(patternPath));
+          if (!rule) {
+            return;
           }
-        },
 
-        // Detect <Formik> component
-        JSXElement: (jsxPath) => {
-          if (
-            t.isJSXIdentifier(jsxPath.node.openingElement.name) &&
-            jsxPath.node.openingElement.name.name === 'Formik'
-          ) {
-            const complexity = this.analyzeFormikComponentComplexity(jsxPath);
-            patterns.push({
-              type: 'Formik',
-              location: {
-                file: filePath,
-                line: jsxPath.node.loc?.start.line || 0,
-                column: jsxPath.node.loc?.start.column || 0,
-              },
-              complexity,
-              canAutoConvert: complexity === 'simple',
-              reason: complexity !== 'simple' 
-                ? 'Complex render patterns need manual review' 
-                : undefined,
-            });
-          }
-        },
-
-        // Detect <Field> components
-        JSXOpeningElement: (jsxPath) => {
-          if (t.isJSXIdentifier(jsxPath.node.name)) {
-            const name = jsxPath.node.name.name;
-            if (['Field', 'FastField', 'FieldArray'].includes(name)) {
-              const hasCustomRender = jsxPath.node.attributes.some(
-                (attr) =>
-                  t.isJSXAttribute(attr) &&
-                  t.isJSXIdentifier(attr.name) &&
-                  ['render', 'component', 'children'].includes(attr.name.name)
-              );
-
-              patterns.push({
-                type: name as any,
-                location: {
-                  file: filePath,
-                  line: jsxPath.node.loc?.start.line || 0,
-                  column: jsxPath.node.loc?.start.column || 0,
-                },
-                complexity: hasCustomRender ? 'medium' : 'simple',
-                canAutoConvert: !hasCustomRender,
-                reason: hasCustomRender 
-                  ? 'Custom render/component prop needs adjustment' 
-                  : undefined,
-              });
-            }
-          }
+          const blocker = rule.getBlocker?.(patternPath) ?? null;
+          const complexity = rule.getComplexity?.(patternPath, blocker) ?? (blocker ? 'medium' : 'simple');
+          patterns.push({
+            type: rule.type,
+            location: {
+              file: filePath,
+              line: patternPath.node.loc?.start.line || 0,
+              column: patternPath.node.loc?.start.column || 0,
+            },
+            complexity,
+            canAutoConvert: complexity === 'simple',
+            reason: complexity !== 'simple' ? blocker ?? 'Needs manual review' : undefined,
+          });
         },
       });
 
+      components?.set(filePath, indexComponents(ast, filePath));
+
       const linesOfCode = code.split('\n').length;
-      const estimatedEffort = this.calculateEffort(patterns, linesOfCode);
+      const estimatedEffort = this.calculateEffort(patterns, linesOfCode, 0);
 
       return {
         filePath,
         hasFormik,
         patterns,
+        wrapperUsages: [],
         linesOfCode,
         estimatedEffort,
       };
@@ -169,6 +156,7 @@ export class FormikAnalyzer {
         filePath,
         hasFormik: false,
         patterns: [],
+        wrapperUsages: [],
         linesOfCode: 0,
         estimatedEffort: 'low',
       };
@@ -188,106 +176,25 @@ export class FormikAnalyzer {
     });
 
     const analyses: FileAnalysis[] = [];
+    const components = new Map<string, ComponentIndex>();
     
     for (const file of files) {
-      const analysis = this.analyzeFile(file);
-      if (analysis.hasFormik) {
-        analyses.push(analysis);
-      }
-    }
-
-    return this.aggregateAnalysis(analyses, files.length);
-  }
-
-  /**
-   * Determine useFormik complexity
-   */
-  private analyzeUseFormikComplexity(path: any): 'simple' | 'medium' | 'complex' {
-    const arg = path.node.arguments[0];
-    
-    if (!t.isObjectExpression(arg)) {
-      return 'complex';
-    }
-
-    const props = arg.properties.map((p: any) => 
-      t.isObjectProperty(p) && t.isIdentifier(p.key) ? p.key.name : ''
-    );
-
-    // Simple: just initialValues, onSubmit, maybe validationSchema
-    const simpleProps = ['initialValues', 'onSubmit', 'validationSchema'];
-    const hasOnlySimpleProps = props.every((p: string) => simpleProps.includes(p) || !p);
-
-    if (hasOnlySimpleProps && props.length <= 3) {
-      return 'simple';
+      analyses.push(this.analyzeFile(file, components));
     }
 
-    // Complex: custom validate, enableReinitialize, complex config
-    const complexProps = ['validate', 'validateOnChange', 'validateOnBlur', 'enableReinitialize'];
-    const hasComplexProps = props.some((p: string) => complexProps.includes(p));
-
-    if (hasComplexProps) {
-      return 'complex';
-    }
-
-    return 'medium';
-  }
-
-  /**
-   * Determine <Formik> component complexity
-   */
-  private analyzeFormikComponentComplexity(path: any): 'simple' | 'medium' | 'complex' {
-    const attrs = path.node.openingElement.attributes;
-    
-    // Check for render props pattern
-    const hasRenderProp = attrs.some(
-      (attr: any) =>
-        t.isJSXAttribute(attr) &&
-        t.isJSXIdentifier(attr.name) &&
-        ['render', 'children', 'component'].includes(attr.name.name)
-    );
-
-    if (hasRenderProp) {
-      return 'medium';
-    }
-
-    // Check for complex props
-    const propNames = attrs
-      .filter((attr: any) => t.isJSXAttribute(attr))
-      .map((attr: any) => (t.isJSXIdentifier(attr.name) ? attr.name.name : ''));
-
-    const complexProps = ['validate', 'validateOnChange', 'validateOnBlur'];
-    if (propNames.some((name: string) => complexProps.includes(name))) {
-      return 'complex';
-    }
-
-    return 'simple';
-  }
-
-  /**
-   * Get reason for complexity
-   */
-  private getComplexityReason(path: any): string {
-    const arg = path.node.arguments[0];
-    
-    if (!t.isObjectExpression(arg)) {
-      return 'Non-standard configuration object';
-    }
-
-    const props = arg.properties.map((p: any) =>
-      t.isObjectProperty(p) && t.isIdentifier(p.key) ? p.key.name : ''
-    );
-
-    if (props.includes('validate')) {
-      return 'Custom validate function (convert to Zod/Yup)';
-    }
-    if (props.includes('enableReinitialize')) {
-      return 'Uses enableReinitialize (different pattern in RHF)';
-    }
-    if (props.includes('validateOnChange') || props.includes('validateOnBlur')) {
-      return 'Custom validation triggers (adjust mode in RHF)';
-    }
+    // Files rendering project components built on Formik depend on it too
+    const wrappers = buildWrapperRegistry(components);
+    const formikAnalyses = analyses.filter((analysis) => {
+      analysis.wrapperUsages = getWrapperUsages(analysis.filePath, wrappers);
+      analysis.estimatedEffort = this.calculateEffort(
+        analysis.patterns,
+        analysis.linesOfCode,
+        analysis.wrapperUsages.length
+      );
+      return analysis.hasFormik || analysis.wrapperUsages.length > 0;
+    });
 
-    return 'Complex configuration needs review';
+    return this.aggregateAnalysis(formikAnalyses, files.length, wrappers);
   }
 
   /**
@@ -295,10 +202,12 @@ export class FormikAnalyzer {
    */
   private calculateEffort(
     patterns: FormikPattern[],
-    linesOfCode: number
+    linesOfCode: number,
+    wrapperUsages: number
   ): 'low' | 'medium' | 'high' {
     const complexCount = patterns.filter((p) => p.complexity === 'complex').length;
-    const mediumCount = patterns.filter((p) => p.complexity === 'medium').length;
+    // Wrapper call sites follow whatever API the migrated wrapper ends up with
+    const mediumCount = patterns.filter((p) => p.complexity === 'medium').length + wrapperUsages;
 
     if (complexCount > 2 || linesOfCode > 500) {
       return 'high';
@@ -314,7 +223,8 @@ export class FormikAnalyzer {
    */
   private aggregateAnalysis(
     files: FileAnalysis[],
-    totalFiles: number
+    totalFiles: number,
+    wrappers: FormikWrapper[]
   ): CodebaseAnalysis {
     const patterns = {
       useFormik: 0,
@@ -370,11 +280,13 @@ export class FormikAnalyzer {
 
     return {
       totalFiles,
-      formikFiles: files.length,
+      formikFiles: files.filter((file) => file.hasFormik).length,
       patterns,
       complexity,
       autoConvertible,
       manualReviewNeeded,
+      indirectUsages: files.reduce((count, file) => count + file.wrapperUsages.length, 0),
+      wrappers,
       estimatedHours: Math.round(estimatedHours * 10) / 10,
       estimatedSavings: Math.round(estimatedSavings * 10) / 10,
       files,
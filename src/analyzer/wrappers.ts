@@ -0,0 +1,433 @@
+import traverse, { NodePath } from '@babel/traverse';
+import * as t from '@babel/types';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Formik APIs a field-level wrapper component is built on. Components
+ * creating their own form (useFormik, <Formik>) are forms, not wrappers.
+ */
+const FIELD_LEVEL_APIS = ['useField', 'useFormikContext', 'connect', 'Field', 'FastField', 'ErrorMessage', 'FieldArray'];
+const FORM_APIS = ['useFormik', 'Formik', 'withFormik'];
+
+const EXTENSIONS = ['.tsx', '.ts', '.jsx', '.js'];
+
+/**
+ * A project component whose implementation depends on Formik, e.g. a
+ * `<TextInput name>` built on `useField`
+ */
+export interface FormikWrapper {
+  name: string;
+  file: string;
+  line: number;
+  /** Formik APIs (or other wrappers) the component is built on */
+  dependsOn: string[];
+  /** Places rendering the wrapper, across the project */
+  callSites: Array<{ file: string; line: number; column: number }>;
+}
+
+/**
+ * A place rendering a wrapper component: indirect Formik usage
+ */
+export interface WrapperUsage {
+  wrapper: string;
+  /** File declaring the wrapper */
+  source: string;
+  line: number;
+  column: number;
+}
+
+/**
+ * A component as referenced from some file: declared there, or imported
+ */
+type ComponentRef = { file: string; local: string } | { file: string; imported: string };
+
+interface ComponentInfo {
+  line: number;
+  formikApis: string[];
+  createsForm: boolean;
+  /** Components it wraps (`memo(TextInput)`) or renders with the `name` prop it's given */
+  renders: ComponentRef[];
+}
+
+/**
+ * What the wrapper pass needs to know about one file
+ */
+export interface ComponentIndex {
+  /** Top-level components, by local name */
+  components: Map<string, ComponentInfo>;
+  /** Exported name → local name, or the module it is re-exported from */
+  exports: Map<string, { local: string } | { file: string; imported: string }>;
+  /** Modules re-exported with `export * from` */
+  starExports: string[];
+  /** Every component rendered in the file */
+  usages: Array<{ ref: ComponentRef; line: number; column: number }>;
+}
+
+/**
+ * Index the components a file declares, exports and renders
+ */
+export function indexComponents(ast: t.File, filePath: string): ComponentIndex {
+  const index: ComponentIndex = { components: new Map(), exports: new Map(), starExports: [], usages: [] };
+  const imports = new Map<string, { file: string; imported: string }>();
+  const formikNames = new Map<string, string>();
+  const formikWrapped = new Set<string>();
+
+  traverse(ast, {
+    ImportDeclaration(importPath) {
+      const source = importPath.node.source.value;
+      const file = source === 'formik' ? null : resolveModule(filePath, source);
+
+      for (const spec of importPath.node.specifiers) {
+        const imported = t.isImportDefaultSpecifier(spec)
+          ? 'default'
+          : t.isImportSpecifier(spec)
+            ? t.isIdentifier(spec.imported) ? spec.imported.name : spec.imported.value
+            : null;
+        if (!imported) {
+          continue;
+        }
+        if (source === 'formik') {
+          formikNames.set(spec.local.name, imported);
+        } else if (file) {
+          imports.set(spec.local.name, { file, imported });
+        }
+      }
+    },
+
+    ExportNamedDeclaration(exportPath) {
+      const { declaration, source, specifiers } = exportPath.node;
+      const from = source ? resolveModule(filePath, source.value) : null;
+
+      for (const spec of specifiers) {
+        if (!t.isExportSpecifier(spec)) {
+          continue;
+        }
+        const exported = t.isIdentifier(spec.exported) ? spec.exported.name : spec.exported.value;
+        if (source) {
+          if (from) {
+            index.exports.set(exported, { file: from, imported: spec.local.name });
+          }
+        } else {
+          index.exports.set(exported, { local: spec.local.name });
+        }
+      }
+
+      if (t.isFunctionDeclaration(declaration) && declaration.id) {
+        index.exports.set(declaration.id.name, { local: declaration.id.name });
+      }
+      if (t.isVariableDeclaration(declaration)) {
+        declaration.declarations.forEach((declarator) => {
+          if (t.isIdentifier(declarator.id)) {
+            index.exports.set(declarator.id.name, { local: declarator.id.name });
+          }
+        });
+      }
+    },
+
+    ExportDefaultDeclaration(exportPath) {
+      const declaration = exportPath.node.declaration;
+      if (t.isIdentifier(declaration)) {
+        index.exports.set('default', { local: declaration.name });
+      } else if (t.isFunctionDeclaration(declaration) && declaration.id) {
+        index.exports.set('default', { local: declaration.id.name });
+      }
+    },
+
+    ExportAllDeclaration(exportPath) {
+      const from = resolveModule(filePath, exportPath.node.source.value);
+      if (from) {
+        index.starExports.push(from);
+      }
+    },
+
+    // withFormik(options)(Inner): Inner is the form, not a wrapper
+    CallExpression(callPath) {
+      const { callee, arguments: args } = callPath.node;
+      if (
+        t.isCallExpression(callee) &&
+        t.isIdentifier(callee.callee) &&
+        formikNames.get(callee.callee.name) === 'withFormik' &&
+        t.isIdentifier(args[0])
+      ) {
+        formikWrapped.add(args[0].name);
+      }
+    },
+  });
+
+  const toRef = (name: string): ComponentRef | null => {
+    const imported = imports.get(name);
+    if (imported) {
+      return imported;
+    }
+    return /^[A-Z]/.test(name) && !formikNames.has(name) ? { file: filePath, local: name } : null;
+  };
+
+  traverse(ast, {
+    Program(program) {
+      for (const statement of program.get('body')) {
+        const declaration = statement.isExportNamedDeclaration() || statement.isExportDefaultDeclaration()
+          ? (statement.get('declaration') as NodePath)
+          : statement;
+
+        for (const [name, component] of getComponentDeclarations(declaration)) {
+          const info = describeComponent(component, formikNames, toRef);
+          info.createsForm ||= formikWrapped.has(name);
+          index.components.set(name, info);
+        }
+      }
+    },
+
+    JSXOpeningElement(element) {
+      const name = element.node.name;
+      const ref = t.isJSXIdentifier(name) ? toRef(name.name) : null;
+      if (ref) {
+        index.usages.push({
+          ref,
+          line: element.node.loc?.start.line || 0,
+          column: element.node.loc?.start.column || 0,
+        });
+      }
+    },
+  });
+
+  return index;
+}
+
+/**
+ * Link the indexes of every file of a project into the wrapper registry,
+ * ranked by how many call sites depend on each wrapper. A component
+ * rendering a wrapper with the `name` it's given is a wrapper too; one
+ * rendering it with names of its own (a form page) isn't.
+ */
+export function buildWrapperRegistry(indexes: Map<string, ComponentIndex>): FormikWrapper[] {
+  const wrappers = new Map<string, FormikWrapper>();
+  const key = (file: string, local: string) => `${file}#${local}`;
+
+  for (const [file, index] of indexes) {
+    for (const [name, component] of index.components) {
+      if (component.formikApis.length > 0 && !component.createsForm) {
+        wrappers.set(key(file, name), { name, file, line: component.line, dependsOn: component.formikApis, callSites: [] });
+      }
+    }
+  }
+
+  // Wrappers of wrappers, until nothing changes
+  let changed = true;
+  while (changed) {
+    changed = false;
+
+    for (const [file, index] of indexes) {
+      for (const [name, component] of index.components) {
+        if (component.createsForm || wrappers.has(key(file, name))) {
+          continue;
+        }
+
+        const wrapped = component.renders
+          .map((ref) => resolveComponent(indexes, ref))
+          .filter((target): target is string => target !== null && wrappers.has(target))
+          .map((target) => wrappers.get(target)!.name);
+        if (wrapped.length > 0) {
+          wrappers.set(key(file, name), { name, file, line: component.line, dependsOn: [...new Set(wrapped)], callSites: [] });
+          changed = true;
+        }
+      }
+    }
+  }
+
+  for (const [file, index] of indexes) {
+    for (const usage of index.usages) {
+      const target = resolveComponent(indexes, usage.ref);
+      const wrapper = target ? wrappers.get(target) : undefined;
+      wrapper?.callSites.push({ file, line: usage.line, column: usage.column });
+    }
+  }
+
+  return [...wrappers.values()].sort((a, b) => b.callSites.length - a.callSites.length);
+}
+
+/**
+ * The places in a file rendering one of the wrappers
+ */
+export function getWrapperUsages(file: string, wrappers: FormikWrapper[]): WrapperUsage[] {
+  return wrappers.flatMap((wrapper) =>
+    wrapper.callSites
+      .filter((site) => site.file === file)
+      .map((site) => ({ wrapper: wrapper.name, source: wrapper.file, line: site.line, column: site.column }))
+  );
+}
+
+/**
+ * `file#local` key of the component a reference points at, following
+ * re-exports. Null when it isn't a component of the project.
+ */
+function resolveComponent(indexes: Map<string, ComponentIndex>, ref: ComponentRef, depth = 0): string | null {
+  const index = indexes.get(ref.file);
+  if (!index || depth > 10) {
+    return null;
+  }
+
+  if ('local' in ref) {
+    return index.components.has(ref.local) ? `${ref.file}#${ref.local}` : null;
+  }
+
+  const exported = index.exports.get(ref.imported);
+  if (exported) {
+    return 'local' in exported
+      ? resolveComponent(indexes, { file: ref.file, local: exported.local }, depth + 1)
+      : resolveComponent(indexes, exported, depth + 1);
+  }
+
+  for (const from of index.starExports) {
+    const target = resolveComponent(indexes, { file: from, imported: ref.imported }, depth + 1);
+    if (target) {
+      return target;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Components declared by a top-level statement: `function Foo()`,
+ * `const Foo = () => ...`, `const Foo = memo(...)` / `connect(...)`
+ */
+function getComponentDeclarations(statement: NodePath): Array<[string, NodePath]> {
+  if (statement.isFunctionDeclaration() && statement.node.id && /^[A-Z]/.test(statement.node.id.name)) {
+    return [[statement.node.id.name, statement]];
+  }
+
+  if (statement.isVariableDeclaration()) {
+    return statement
+      .get('declarations')
+      .filter((declarator) => {
+        const { id, init } = declarator.node;
+        return t.isIdentifier(id) && /^[A-Z]/.test(id.name) &&
+          (t.isArrowFunctionExpression(init) || t.isFunctionExpression(init) || t.isCallExpression(init));
+      })
+      .map((declarator) => [(declarator.node.id as t.Identifier).name, declarator.get('init') as NodePath]);
+  }
+
+  return [];
+}
+
+function describeComponent(
+  component: NodePath,
+  formikNames: Map<string, string>,
+  toRef: (name: string) => ComponentRef | null
+): ComponentInfo {
+  const formikApis = new Set<string>();
+  const renders: ComponentRef[] = [];
+  const props = getPropsBindings(component.node);
+  let createsForm = false;
+
+  const record = (name: string) => {
+    const api = formikNames.get(name);
+    if (api && FIELD_LEVEL_APIS.includes(api)) {
+      formikApis.add(api);
+    }
+    if (api && FORM_APIS.includes(api)) {
+      createsForm = true;
+    }
+  };
+
+  t.traverseFast(component.node, (node) => {
+    if (t.isCallExpression(node) && t.isIdentifier(node.callee)) {
+      record(node.callee.name);
+
+      // memo(TextInput), connect(Inner)
+      node.arguments.forEach((arg) => {
+        const ref = t.isIdentifier(arg) ? toRef(arg.name) : null;
+        if (ref) {
+          renders.push(ref);
+        }
+      });
+    }
+    if (t.isJSXOpeningElement(node) && t.isJSXIdentifier(node.name)) {
+      record(node.name.name);
+      const ref = toRef(node.name.name);
+      if (ref && forwardsName(node, props)) {
+        renders.push(ref);
+      }
+    }
+  });
+
+  return { line: component.node.loc?.start.line || 0, formikApis: [...formikApis], createsForm, renders };
+}
+
+/**
+ * Local names a component receives its props under: `name` holds the
+ * `name` prop (`({ name })`), `all` every prop (`(props)`, `({ ...rest })`)
+ */
+function getPropsBindings(component: t.Node): { name: string[]; all: string[] } {
+  const fn = t.isFunction(component)
+    ? component
+    : t.isCallExpression(component)
+      ? component.arguments.find((arg): arg is t.ArrowFunctionExpression | t.FunctionExpression => t.isFunction(arg))
+      : undefined;
+  const [param] = fn?.params ?? [];
+  const bindings = { name: [] as string[], all: [] as string[] };
+
+  if (t.isIdentifier(param)) {
+    bindings.all.push(param.name);
+  } else if (t.isObjectPattern(param)) {
+    for (const prop of param.properties) {
+      if (t.isRestElement(prop) && t.isIdentifier(prop.argument)) {
+        bindings.all.push(prop.argument.name);
+      } else if (t.isObjectProperty(prop) && t.isIdentifier(prop.key, { name: 'name' })) {
+        const value = t.isAssignmentPattern(prop.value) ? prop.value.left : prop.value;
+        if (t.isIdentifier(value)) {
+          bindings.name.push(value.name);
+        }
+      }
+    }
+  }
+
+  return bindings;
+}
+
+/**
+ * Whether a rendered element gets the `name` prop of the component
+ * rendering it: `name={name}`, `` name={`${name}.street`} ``,
+ * `name={props.name}` or `{...props}`
+ */
+function forwardsName(element: t.JSXOpeningElement, props: { name: string[]; all: string[] }): boolean {
+  return element.attributes.some((attr) => {
+    if (t.isJSXSpreadAttribute(attr)) {
+      return t.isIdentifier(attr.argument) && props.all.includes(attr.argument.name);
+    }
+    if (!t.isJSXIdentifier(attr.name, { name: 'name' }) || !t.isJSXExpressionContainer(attr.value)) {
+      return false;
+    }
+
+    let forwarded = false;
+    t.traverseFast(attr.value.expression, (node) => {
+      forwarded ||=
+        (t.isIdentifier(node) && props.name.includes(node.name)) ||
+        (t.isMemberExpression(node) &&
+          t.isIdentifier(node.object) &&
+          props.all.includes(node.object.name) &&
+          t.isIdentifier(node.property, { name: 'name' }));
+    });
+    return forwarded;
+  });
+}
+
+/**
+ * Resolve a relative import to a file of the project. Path aliases and
+ * packages aren't followed.
+ */
+function resolveModule(fromFile: string, source: string): string | null {
+  if (!source.startsWith('.')) {
+    return null;
+  }
+
+  const base = path.resolve(path.dirname(fromFile), source);
+  const candidates = [
+    base,
+    ...EXTENSIONS.map((extension) => base + extension),
+    ...EXTENSIONS.map((extension) => path.join(base, `index${extension}`)),
+  ];
+
+  return candidates.find((candidate) => fs.existsSync(candidate) && fs.statSync(candidate).isFile()) ?? null;
+}
@@ -1,17 +1,26 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
+import { Command, Option } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
 import inquirer from 'inquirer';
+import Table from 'cli-table3';
 import * as path from 'path';
 import * as fs from 'fs';
 import { FormikAnalyzer } from './analyzer';
 import { generateConsoleReport, generateJsonReport, generateMarkdownReport } from './reporter';
-import { SafeTransformer } from './transformer';
+import { ConversionResult, SafeTransformer } from './transformer';
+import { generateValidateResolver, VALIDATE_RESOLVER } from './transformer/validate-resolver';
 import { watchDirectory, formatWatchOutput } from './utils/watch';
 import { generateHtmlReport } from './reporters/html';
 import { convertYupToZod } from './utils/zod-converter';
+import { formatWithPrettier } from './utils/prettier';
+import { JournalRejection, MigrationJournal } from './utils/journal';
+import { reviewFile } from './utils/review';
+import { createPatch, FileChange, findRepositoryRoot, printFileChange } from './utils/diff';
+import { FormikMigratePlugin, loadPlugins } from './plugins';
+import { DEFAULT_TARGET, getTarget, TARGETS } from './transformer/targets';
+import { formatDiagnostic, TypeDiagnostic, verifyChanges } from './utils/typecheck';
 
 const program = new Command();
 
@@ -30,8 +39,12 @@ program
   .option('-o, --output <file>', 'Save report to file')
   .option('-w, --watch', 'Watch mode - re-analyze on file changes')
   .option('--html <file>', 'Generate HTML report')
+  .option('--config <file>', 'Config file listing plugins (default: nearest formik-migrate.config.js)')
+  .option('--plugin <module>', 'Load a plugin package or file (repeatable)', collect, [])
+  .addOption(targetOption())
   .action(async (directory = '.', options) => {
     const targetDir = path.resolve(process.cwd(), directory);
+    const plugins = getPlugins(targetDir, options);
 
     // Watch mode
     if (options.watch) {
@@ -43,6 +56,8 @@ program
 
       const watcher = watchDirectory({
         directory: targetDir,
+        plugins,
+        target: options.target,
         onChange: (analysis) => {
           console.clear();
           console.log(chalk.cyan.bold('\n🔄 Formik Migration Watch Mode\n'));
@@ -77,7 +92,7 @@ program
     const spinner = ora('Scanning files...').start();
 
     try {
-      const analyzer = new FormikAnalyzer();
+      const analyzer = new FormikAnalyzer(plugins, options.target);
       const analysis = await analyzer.analyzeCodebase(targetDir);
 
       spinner.succeed(chalk.green('Analysis complete!'));
@@ -143,60 +158,120 @@ program
  */
 program
   .command('convert [directory]')
-  .description('Convert Formik code to React Hook Form (safe patterns only)')
-  .option('-d, --dry-run', 'Preview changes without modifying files')
-  .option('-b, --backup', 'Create .backup files before converting')
+  .description('Convert Formik code to React Hook Form, or the --target library (safe patterns only)')
+  .option('-d, --dry-run', 'Preview changes as diffs without modifying files')
+  .option('--patch <file>', 'Write the changes to a patch file for git apply instead of modifying files')
+  .option('--json', 'Print the conversion results as JSON')
+  // Superseded by the journal; still accepted so existing scripts keep working
+  .addOption(new Option('-b, --backup').hideHelp())
   .option('-y, --yes', 'Skip confirmation prompts')
+  .option('-i, --interactive', 'Review each converted pattern: accept, reject, edit or skip the rest of the file')
   .option('--zod', 'Convert Yup schemas to Zod (experimental)')
+  .option('--error-message <style>', 'How to convert <ErrorMessage> (inline|hookform)', 'inline')
+  .option('--helpers <path>', 'Shared helpers module, without extension (default: <directory>/formikValidateResolver)')
+  .option('--no-preserve-formatting', 'Reprint whole files instead of only the converted code')
+  .option('--prettier', "Format converted files with the project's Prettier config")
+  .option('--verify', 'Type-check converted files and leave out the ones with new errors')
+  .option('--partial', 'Convert the safe patterns of every file, marking the rest with TODO(formik-migrate) comments')
+  .option('--config <file>', 'Config file listing plugins (default: nearest formik-migrate.config.js)')
+  .option('--plugin <module>', 'Load a plugin package or file (repeatable)', collect, [])
+  .addOption(targetOption())
   .action(async (directory = '.', options) => {
     const targetDir = path.resolve(process.cwd(), directory);
+    const plugins = getPlugins(targetDir, options);
+    const target = getTarget(options.target);
+    const dryRun = Boolean(options.dryRun || options.patch);
+    // With --json, stdout is the JSON alone
+    const log: (...args: unknown[]) => void = options.json ? () => undefined : console.log;
+
+    if (options.json && (options.interactive || (!dryRun && !options.yes))) {
+      console.error(chalk.red('\n❌ --json can\'t prompt: use it with --dry-run or --yes, without --interactive\n'));
+      process.exit(1);
+    }
 
-    console.log(chalk.cyan.bold('\n🔄 Formik to React Hook Form Converter\n'));
+    log(chalk.cyan.bold(`\n🔄 Formik to ${target.label} Converter\n`));
+
+    if (options.backup) {
+      log(chalk.gray('--backup is no longer needed: every run is journaled (see formik-migrate history)\n'));
+    }
 
     // First, analyze
-    const spinner = ora('Analyzing codebase...').start();
-    const analyzer = new FormikAnalyzer();
+    const spinner = ora({ text: 'Analyzing codebase...', isSilent: options.json }).start();
+    const analyzer = new FormikAnalyzer(plugins, options.target);
     const analysis = await analyzer.analyzeCodebase(targetDir);
     spinner.succeed();
 
     if (analysis.autoConvertible === 0) {
-      console.log(chalk.yellow('\n⚠️  No auto-convertible patterns found.'));
-      console.log(chalk.yellow('All patterns need manual review.\n'));
+      log(chalk.yellow('\n⚠️  No auto-convertible patterns found.'));
+      log(chalk.yellow('All patterns need manual review.\n'));
+      if (options.json) {
+        console.log('[]');
+      }
       process.exit(0);
     }
 
-    console.log(chalk.green(`\n✓ Found ${analysis.autoConvertible} auto-convertible patterns`));
-    console.log(chalk.yellow(`⚠ ${analysis.manualReviewNeeded} patterns need manual review\n`));
+    log(chalk.green(`\n✓ Found ${analysis.autoConvertible} auto-convertible patterns`));
+    log(chalk.yellow(`⚠ ${analysis.manualReviewNeeded} patterns need manual review\n`));
 
-    // Confirm unless --yes
-    if (!options.yes && !options.dryRun) {
+    // Confirm unless --yes; interactive runs confirm pattern by pattern
+    if (!options.yes && !dryRun && !options.interactive) {
       const { confirmed } = await inquirer.prompt([
         {
           type: 'confirm',
           name: 'confirmed',
           message: chalk.yellow(
-            `Convert ${analysis.autoConvertible} patterns? (${
-              options.backup ? 'backups will be created' : 'NO backups'
-            })`
+            `Convert ${analysis.autoConvertible} patterns? (undo with formik-migrate rollback)`
           ),
           default: false,
         },
       ]);
 
       if (!confirmed) {
-        console.log(chalk.red('\n❌ Conversion cancelled.\n'));
+        log(chalk.red('\n❌ Conversion cancelled.\n'));
         process.exit(0);
       }
     }
 
-    // Convert files
-    const convertSpinner = ora('Converting files...').start();
-    const transformer = new SafeTransformer();
+    // Convert files (no spinner while prompting for each pattern)
+    const convertSpinner = ora({ text: 'Converting files...', isSilent: options.json });
+    if (!options.interactive) {
+      convertSpinner.start();
+    }
+    const helpersModule = options.helpers
+      ? path.resolve(process.cwd(), options.helpers)
+      : path.join(targetDir, VALIDATE_RESOLVER);
+    const transformerOptions = {
+      errorMessage: options.errorMessage,
+      helpersModule,
+      preserveFormatting: options.preserveFormatting,
+      partial: options.partial,
+      plugins,
+      target: options.target,
+    };
+    const transformer = new SafeTransformer(transformerOptions);
+    const journal = MigrationJournal.forPath(targetDir);
+    const run = journal.beginRun(targetDir);
     let converted = 0;
     let skipped = 0;
+    let todos = 0;
+    let droppedEdits = 0;
+    const rejected: JournalRejection[] = [];
     const allWarnings: string[] = [];
+    const helperUsers: string[] = [];
+    const results: Array<ConversionResult & { filePath: string; diagnostics?: string[] }> = [];
+    const changes: FileChange[] = [];
+    const pending: Array<{ original: string; result: (typeof results)[number] }> = [];
+    const getHelpersFile = (users: string[]) => {
+      const typescript = users.some((file) => /\.tsx?$/.test(file));
+      return { typescript, file: `${helpersModule}.${typescript ? 'ts' : 'js'}` };
+    };
 
     for (const file of analysis.files) {
+      // Files only rendering wrapper components follow the wrappers
+      if (!file.hasFormik) {
+        continue;
+      }
+
       const hasAutoConvertible = file.patterns.some((p) => p.canAutoConvert);
 
       if (!hasAutoConvertible) {
@@ -205,81 +280,281 @@ program
       }
 
       try {
-        const result = transformer.transformFile(file.filePath);
+        let result = transformer.transformFile(file.filePath);
+
+        if (options.interactive && result.success) {
+          const review = await reviewFile(file.filePath, transformerOptions);
+          rejected.push(
+            ...[...review.rejected, ...review.unreviewed].map((pattern) => ({
+              file: file.filePath,
+              type: pattern.type,
+              line: pattern.location.line,
+              column: pattern.location.column,
+            }))
+          );
+          droppedEdits += review.droppedEdits;
+
+          // Nothing accepted: the file stays as it is
+          if (!review.result) {
+            continue;
+          }
+          result = review.result;
+        }
 
         if (result.success && result.convertedCode) {
-          if (!options.dryRun) {
-            // Backup if requested
-            if (options.backup) {
-              fs.writeFileSync(`${file.filePath}.backup`, fs.readFileSync(file.filePath));
+          if (options.prettier) {
+            try {
+              result.convertedCode = await formatWithPrettier(result.convertedCode, file.filePath);
+            } catch (error) {
+              allWarnings.push(`${file.filePath}: Prettier failed - ${(error as Error).message}`);
             }
-
-            // Write converted code
-            fs.writeFileSync(file.filePath, result.convertedCode);
           }
 
-          converted++;
-          allWarnings.push(...result.warnings);
+          // Written once every file is converted (and verified)
+          const entry = { filePath: file.filePath, ...result };
+          pending.push({ original: fs.readFileSync(file.filePath, 'utf-8'), result: entry });
+          results.push(entry);
         } else {
           skipped++;
           if (result.error) {
             allWarnings.push(`${file.filePath}: ${result.error}`);
           }
+          results.push({ filePath: file.filePath, ...result });
         }
       } catch (error) {
         skipped++;
         allWarnings.push(`${file.filePath}: ${(error as Error).message}`);
+        results.push({
+          filePath: file.filePath,
+          success: false,
+          error: (error as Error).message,
+          warnings: [],
+          changes: [],
+          converted: [],
+          skipped: [],
+        });
+      }
+    }
+
+    // Type-check before writing anything: files the conversion breaks stay as they are
+    const reverted = new Map<string, TypeDiagnostic[]>();
+    if (options.verify && pending.length > 0) {
+      convertSpinner.text = 'Type-checking converted files...';
+      const users = pending.filter(({ result }) => result.helpers?.length).map(({ result }) => result.filePath);
+      const helpers = getHelpersFile(users);
+
+      try {
+        const verification = verifyChanges([
+          ...pending.map(({ original, result }) => ({ filePath: result.filePath, original, converted: result.convertedCode! })),
+          ...(users.length > 0 && !fs.existsSync(helpers.file)
+            ? [{ filePath: helpers.file, original: null, converted: generateValidateResolver(helpers.typescript) }]
+            : []),
+        ]);
+        verification.introduced.forEach((diagnostics, file) => reverted.set(file, diagnostics));
+        verification.unchecked.forEach((file) => allWarnings.push(`${file}: no tsconfig.json found - not verified`));
+      } catch (error) {
+        convertSpinner.fail(chalk.red('Type-check failed'));
+        console.error(chalk.red(`\n❌ ${(error as Error).message}\n`));
+        process.exit(1);
+      }
+    }
+
+    for (const { original, result } of pending) {
+      const diagnostics = reverted.get(result.filePath);
+      if (diagnostics) {
+        result.success = false;
+        result.error = 'The conversion introduces type errors';
+        result.diagnostics = diagnostics.map(formatDiagnostic);
+        continue;
+      }
+
+      // Write converted code, keeping the original in the journal
+      if (dryRun) {
+        changes.push({ filePath: result.filePath, original, converted: result.convertedCode! });
+      } else {
+        journal.writeFile(run, result.filePath, result.convertedCode!);
+      }
+
+      converted++;
+      todos += result.skipped.length;
+      allWarnings.push(...result.warnings);
+      if (result.helpers && result.helpers.length > 0) {
+        helperUsers.push(result.filePath);
       }
     }
 
     convertSpinner.succeed(
       chalk.green(
-        options.dryRun
+        dryRun
           ? `Dry run complete! Would convert ${converted} files`
           : `Converted ${converted} files`
       )
     );
 
     if (skipped > 0) {
-      console.log(chalk.yellow(`⚠ Skipped ${skipped} files (manual review needed)`));
+      log(chalk.yellow(`⚠ Skipped ${skipped} files (manual review needed)`));
+    }
+    if (options.partial && todos > 0) {
+      log(chalk.yellow(`⚠ Left ${todos} patterns in converted files for manual review (search for TODO(formik-migrate))`));
+    }
+    if (rejected.length > 0) {
+      log(chalk.yellow(`⚠ Kept ${rejected.length} rejected patterns as Formik:`));
+      rejected.forEach((pattern) => {
+        log(chalk.gray(`   ${path.relative(process.cwd(), pattern.file)}:${pattern.line} ${pattern.type}`));
+      });
+    }
+    if (droppedEdits > 0) {
+      log(chalk.yellow(`⚠ Dropped ${droppedEdits} edits that no longer matched the converted code`));
+    }
+    if (reverted.size > 0) {
+      log(chalk.red(`✗ Left ${reverted.size} files as they were: their conversion introduces type errors`));
+      reverted.forEach((diagnostics, file) => {
+        log(chalk.bold(`   ${path.relative(process.cwd(), file)}`));
+        diagnostics.forEach((diagnostic) => log(chalk.red(`     ${formatDiagnostic(diagnostic)}`)));
+      });
+    }
+
+    // Converted validate functions share one resolver adapter per project
+    if (helperUsers.length > 0) {
+      const { typescript, file: helpersFile } = getHelpersFile(helperUsers);
+
+      if (fs.existsSync(helpersFile)) {
+        log(chalk.gray(`   Using existing ${path.relative(process.cwd(), helpersFile)}`));
+      } else if (dryRun) {
+        log(chalk.cyan(`   Would create ${path.relative(process.cwd(), helpersFile)}`));
+        changes.push({ filePath: helpersFile, original: null, converted: generateValidateResolver(typescript) });
+      } else {
+        fs.mkdirSync(path.dirname(helpersFile), { recursive: true });
+        journal.writeFile(run, helpersFile, generateValidateResolver(typescript));
+        log(chalk.green(`✓ Created ${path.relative(process.cwd(), helpersFile)}`));
+      }
+    }
+
+    if (options.patch) {
+      fs.writeFileSync(options.patch, createPatch(changes, findRepositoryRoot(targetDir)));
+      log(chalk.green(`✓ Patch saved to ${options.patch} - apply it from the repository root with: git apply ${options.patch}`));
+    } else if (dryRun && !options.json) {
+      changes.forEach(printFileChange);
+    }
+
+    if (!dryRun && rejected.length > 0) {
+      journal.recordRejected(run, rejected);
     }
 
     // Show warnings
     if (allWarnings.length > 0) {
-      console.log(chalk.yellow('\n⚠️  Warnings:'));
+      log(chalk.yellow('\n⚠️  Warnings:'));
       const uniqueWarnings = [...new Set(allWarnings)];
       uniqueWarnings.slice(0, 10).forEach((w) => {
-        console.log(chalk.yellow(`   • ${w}`));
+        log(chalk.yellow(`   • ${w}`));
       });
       if (uniqueWarnings.length > 10) {
-        console.log(chalk.yellow(`   ... and ${uniqueWarnings.length - 10} more`));
+        log(chalk.yellow(`   ... and ${uniqueWarnings.length - 10} more`));
       }
     }
 
-    if (!options.dryRun && converted > 0) {
-      console.log(chalk.green.bold('\n✅ Conversion complete!\n'));
-
-      console.log(chalk.cyan('📋 Next steps:'));
-      console.log('   1. Install dependencies:');
-      console.log(chalk.gray('      npm install react-hook-form @hookform/resolvers'));
-      console.log('   2. Review changes:');
-      console.log(chalk.gray('      git diff'));
-      console.log('   3. Test your forms thoroughly');
-      console.log('   4. Review files that need manual attention');
-      console.log('   5. Commit changes:');
-      console.log(chalk.gray('      git add . && git commit -m "Migrate from Formik to RHF"'));
-      console.log();
+    if (!dryRun && converted > 0) {
+      log(chalk.green.bold('\n✅ Conversion complete!\n'));
+      log(chalk.gray(`   Recorded as run ${run.id} - undo it with: formik-migrate rollback ${run.id}\n`));
+
+      log(chalk.cyan('📋 Next steps:'));
+      log('   1. Install dependencies:');
+      log(chalk.gray(`      npm install ${target.dependencies.join(' ')}`));
+      log('   2. Review changes:');
+      log(chalk.gray('      git diff'));
+      log('   3. Test your forms thoroughly');
+      log('   4. Review files that need manual attention');
+      log('   5. Commit changes:');
+      log(chalk.gray(`      git add . && git commit -m "Migrate from Formik to ${target.label}"`));
+      log();
       
       // Simple support message
-      console.log(chalk.yellow('━'.repeat(60)));
-      console.log(chalk.bold(`\n💚 Saved you ${analysis.estimatedSavings.toFixed(1)} hours? Consider buying me a coffee!`));
-      console.log(chalk.cyan('   https://buymeacoffee.com/willzhangfly'));
-      console.log(chalk.gray('\n   formik-migrate is free & open source. Tips keep it alive! ☕\n'));
-      console.log(chalk.yellow('━'.repeat(60)));
-      console.log();
-    } else if (options.dryRun) {
-      console.log(chalk.blue('\n💡 Run without --dry-run to apply changes\n'));
+      log(chalk.yellow('━'.repeat(60)));
+      log(chalk.bold(`\n💚 Saved you ${analysis.estimatedSavings.toFixed(1)} hours? Consider buying me a coffee!`));
+      log(chalk.cyan('   https://buymeacoffee.com/willzhangfly'));
+      log(chalk.gray('\n   formik-migrate is free & open source. Tips keep it alive! ☕\n'));
+      log(chalk.yellow('━'.repeat(60)));
+      log();
+    } else if (dryRun && !options.patch) {
+      log(chalk.blue('\n💡 Run without --dry-run to apply changes\n'));
+    }
+
+    if (options.json) {
+      console.log(JSON.stringify(results, null, 2));
+    }
+  });
+
+/**
+ * Rollback command - restore the files a convert run changed
+ */
+program
+  .command('rollback [runId]')
+  .description('Restore the files a convert run changed (default: the last run)')
+  .option('--dir <directory>', 'Directory of the project the run converted', '.')
+  .option('-f, --force', 'Roll back files edited since the conversion too')
+  .action((runId: string | undefined, options) => {
+    const journal = MigrationJournal.forPath(path.resolve(process.cwd(), options.dir));
+    const run = journal.getRun(runId);
+
+    if (!run) {
+      console.log(chalk.red(runId ? `\n❌ No run ${runId} in ${journal.directory}\n` : '\n❌ No run to roll back\n'));
+      process.exit(1);
+    }
+    if (run.rolledBackAt) {
+      console.log(chalk.yellow(`\n⚠ Run ${run.id} was already rolled back on ${new Date(run.rolledBackAt).toLocaleString()}\n`));
+      process.exit(1);
+    }
+
+    const result = journal.rollback(run, options.force);
+
+    if (result.conflicts.length > 0 && !options.force) {
+      console.log(chalk.red(`\n❌ Files changed since run ${run.id} converted them:`));
+      result.conflicts.forEach((file) => console.log(chalk.red(`   • ${file}`)));
+      console.log(chalk.yellow('\nNothing was rolled back. Use --force to overwrite those changes.\n'));
+      process.exit(1);
+    }
+
+    console.log(chalk.green(`\n✓ Rolled back run ${run.id}`));
+    result.restored.forEach((file) => console.log(chalk.gray(`   restored ${file}`)));
+    result.deleted.forEach((file) => console.log(chalk.gray(`   deleted  ${file}`)));
+    if (result.conflicts.length > 0) {
+      console.log(chalk.yellow(`⚠ Overwrote changes made since the conversion in ${result.conflicts.length} files`));
+    }
+    console.log();
+  });
+
+/**
+ * History command - list past convert runs
+ */
+program
+  .command('history')
+  .description('List past convert runs')
+  .option('--dir <directory>', 'Project directory', '.')
+  .action((options) => {
+    const journal = MigrationJournal.forPath(path.resolve(process.cwd(), options.dir));
+    const runs = journal.listRuns();
+
+    if (runs.length === 0) {
+      console.log(chalk.yellow('\nNo convert runs recorded yet.\n'));
+      return;
     }
+
+    const table = new Table({
+      head: [chalk.bold('Run'), chalk.bold('Date'), chalk.bold('Directory'), chalk.bold('Files'), chalk.bold('Status')],
+    });
+    runs.forEach((run) => {
+      table.push([
+        run.id,
+        new Date(run.startedAt).toLocaleString(),
+        run.directory,
+        run.files.length.toString(),
+        run.rolledBackAt ? chalk.gray('rolled back') : chalk.green('applied'),
+      ]);
+    });
+
+    console.log();
+    console.log(table.toString());
+    console.log(chalk.gray(`\nUndo a run with: formik-migrate rollback <run>\n`));
   });
 
 /**
@@ -288,11 +563,15 @@ program
 program
   .command('stats [directory]')
   .description('Quick summary of Formik usage')
-  .action(async (directory = '.') => {
+  .option('--config <file>', 'Config file listing plugins (default: nearest formik-migrate.config.js)')
+  .option('--plugin <module>', 'Load a plugin package or file (repeatable)', collect, [])
+  .addOption(targetOption())
+  .action(async (directory = '.', options) => {
     const targetDir = path.resolve(process.cwd(), directory);
+    const plugins = getPlugins(targetDir, options);
 
     const spinner = ora('Scanning...').start();
-    const analyzer = new FormikAnalyzer();
+    const analyzer = new FormikAnalyzer(plugins, options.target);
     const analysis = await analyzer.analyzeCodebase(targetDir);
     spinner.stop();
 
@@ -302,9 +581,39 @@ program
     console.log(`  Files with Formik:      ${chalk.yellow(analysis.formikFiles)}`);
     console.log(`  Auto-convertible:       ${chalk.green(analysis.autoConvertible)}`);
     console.log(`  Manual review needed:   ${chalk.red(analysis.manualReviewNeeded)}`);
+    console.log(`  Wrapper call sites:     ${chalk.magenta(analysis.indirectUsages)}`);
     console.log(`  Estimated time:         ${chalk.blue(analysis.estimatedHours + ' hours')}`);
     console.log(`  Time saved with tool:   ${chalk.green(analysis.estimatedSavings + ' hours')}`);
     console.log();
   });
 
+/**
+ * Collect the values of a repeatable option
+ */
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+/**
+ * --target, for the commands judging which patterns convert
+ */
+function targetOption(): Option {
+  return new Option('--target <library>', 'Form library to migrate to')
+    .choices(Object.keys(TARGETS))
+    .default(DEFAULT_TARGET);
+}
+
+/**
+ * Plugins from the config file and --plugin options. Exits when one
+ * can't be loaded.
+ */
+function getPlugins(directory: string, options: { config?: string; plugin?: string[] }): FormikMigratePlugin[] {
+  try {
+    return loadPlugins(directory, options.config, options.plugin);
+  } catch (error) {
+    console.error(chalk.red(`\n❌ ${(error as Error).message}\n`));
+    process.exit(1);
+  }
+}
+
 program.parse();
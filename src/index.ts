@@ -1,7 +1,15 @@
 export { FormikAnalyzer } from './analyzer';
-export type { FormikPattern, FileAnalysis, CodebaseAnalysis } from './analyzer';
+export type { FormikPattern, FileAnalysis, CodebaseAnalysis, FormikWrapper, WrapperUsage } from './analyzer';
 
 export { SafeTransformer } from './transformer';
-export type { ConversionResult } from './transformer';
+export type { ConversionResult, PatternReport, TransformOptions } from './transformer';
+export type { ErrorMessageStyle } from './transformer/error-message';
 
 export { generateConsoleReport, generateJsonReport, generateMarkdownReport } from './reporter';
+
+export { getBuiltinPlugin, getRules, loadPlugins } from './plugins';
+export type { FormikMigrateConfig, FormikMigratePlugin, MigrationRule, RuleContext } from './plugins';
+export type { FormApi } from './transformer/form-api';
+
+export { DEFAULT_TARGET, getTarget, TARGETS } from './transformer/targets';
+export type { MigrationTarget, PatternConversion, TargetName } from './transformer/targets';
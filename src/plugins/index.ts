@@ -0,0 +1,152 @@
+/**
+ * Plugins - rules contributed to the analyzer and the transformer
+ *
+ * A plugin is a module exporting `{ name, rules }` (see MigrationRule).
+ * Plugins are listed in a config file at the project root, by npm package
+ * name or by path relative to the config file:
+ *
+ *   // formik-migrate.config.js
+ *   module.exports = { plugins: ['formik-migrate-plugin-acme', './migrate/select-rules.js'] };
+ *
+ * Rules run in order: the built-in ones, then each plugin's in the order
+ * the plugins are listed. A pattern is handled by the first rule matching
+ * it. Plugin rules run for every target; they can read it from
+ * `context.options.target`.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createRequire } from 'module';
+import { getBuiltinRules, MigrationRule } from '../transformer/rules';
+import { getTarget } from '../transformer/targets';
+
+export type { MigrationRule, RuleContext } from '../transformer/rules';
+
+export const CONFIG_FILES = ['formik-migrate.config.js', 'formik-migrate.config.cjs', 'formik-migrate.config.json'];
+
+/**
+ * A set of migration rules
+ */
+export interface FormikMigratePlugin {
+  name: string;
+  rules: MigrationRule[];
+}
+
+/**
+ * Contents of a config file
+ */
+export interface FormikMigrateConfig {
+  /** Plugins, as package names, paths relative to the config file, or plugin objects */
+  plugins?: Array<string | FormikMigratePlugin>;
+}
+
+/**
+ * The rules the tool ships with for a target (React Hook Form by default),
+ * registered like any plugin's
+ */
+export function getBuiltinPlugin(target?: string): FormikMigratePlugin {
+  return {
+    name: 'formik-migrate',
+    rules: getBuiltinRules(getTarget(target)),
+  };
+}
+
+/**
+ * Rules of the built-in plugin for a target, followed by those of
+ * `plugins` in order
+ */
+export function getRules(plugins: FormikMigratePlugin[] = [], target?: string): MigrationRule[] {
+  return [getBuiltinPlugin(target), ...plugins].flatMap((plugin) => plugin.rules);
+}
+
+/**
+ * The config file of the project a directory belongs to: the nearest one
+ * up from it, or null
+ */
+export function findConfigFile(directory: string): string | null {
+  let current = path.resolve(directory);
+
+  while (true) {
+    const file = CONFIG_FILES.map((name) => path.join(current, name)).find((candidate) => fs.existsSync(candidate));
+    if (file) {
+      return file;
+    }
+
+    const parent = path.dirname(current);
+    if (parent === current) {
+      return null;
+    }
+    current = parent;
+  }
+}
+
+/**
+ * Load the plugins of a config file (found from `directory` unless given),
+ * then the `extra` ones (package names or paths relative to the working
+ * directory). Throws when a plugin can't be loaded or isn't valid.
+ */
+export function loadPlugins(directory: string, configFile?: string, extra: string[] = []): FormikMigratePlugin[] {
+  const file = configFile ? path.resolve(configFile) : findConfigFile(directory);
+  const plugins: FormikMigratePlugin[] = [];
+
+  if (file) {
+    const config = loadModule(createRequire(file), file) as FormikMigrateConfig;
+    for (const entry of config.plugins ?? []) {
+      plugins.push(typeof entry === 'string' ? loadPlugin(entry, file) : validatePlugin(entry, file));
+    }
+  }
+
+  // Resolved like a require from a file in the working directory
+  const fromCwd = path.join(process.cwd(), 'package.json');
+  for (const entry of extra) {
+    plugins.push(loadPlugin(entry, fromCwd));
+  }
+
+  return plugins;
+}
+
+/**
+ * Load a plugin module, resolved like a `require` from `fromFile`
+ */
+function loadPlugin(specifier: string, fromFile: string): FormikMigratePlugin {
+  const projectRequire = createRequire(fromFile);
+  const request = specifier.startsWith('.') ? path.resolve(path.dirname(fromFile), specifier) : specifier;
+
+  let resolved: string;
+  try {
+    resolved = projectRequire.resolve(request);
+  } catch {
+    throw new Error(`Can't find plugin "${specifier}" (from ${fromFile})`);
+  }
+
+  return validatePlugin(loadModule(projectRequire, resolved), specifier);
+}
+
+function loadModule(projectRequire: NodeRequire, file: string): unknown {
+  const loaded = projectRequire(file);
+  // Compiled ES modules export the plugin as `default`
+  return loaded && typeof loaded === 'object' && 'default' in loaded ? loaded.default : loaded;
+}
+
+function validatePlugin(plugin: unknown, source: string): FormikMigratePlugin {
+  const candidate = plugin as Partial<FormikMigratePlugin> | null;
+
+  if (!candidate || typeof candidate.name !== 'string' || !Array.isArray(candidate.rules)) {
+    throw new Error(`Plugin "${source}" must export an object with a \`name\` and a \`rules\` array`);
+  }
+
+  candidate.rules.forEach((rule, index) => {
+    if (
+      !rule ||
+      typeof rule.type !== 'string' ||
+      !['CallExpression', 'JSXElement'].includes(rule.node) ||
+      typeof rule.match !== 'function'
+    ) {
+      throw new Error(
+        `Rule ${index} of plugin "${candidate.name}" needs a \`type\`, a \`node\` (CallExpression or JSXElement) and a \`match\` function`
+      );
+    }
+  });
+
+  return candidate as FormikMigratePlugin;
+}
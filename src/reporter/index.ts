@@ -23,7 +23,8 @@ export function generateConsoleReport(analysis: CodebaseAnalysis): void {
     [chalk.yellow('Files Using Formik'), chalk.yellow.bold(analysis.formikFiles.toString())],
     ['', ''],
     [chalk.green('✓ Auto-Convertible'), chalk.green.bold(analysis.autoConvertible.toString())],
-    [chalk.red('⚠ Manual Review Needed'), chalk.red.bold(analysis.manualReviewNeeded.toString())]
+    [chalk.red('⚠ Manual Review Needed'), chalk.red.bold(analysis.manualReviewNeeded.toString())],
+    [chalk.magenta('↪ Indirect Usages (via wrappers)'), chalk.magenta.bold(analysis.indirectUsages.toString())]
   );
 
   console.log(summaryTable.toString());
@@ -47,6 +48,23 @@ export function generateConsoleReport(analysis: CodebaseAnalysis): void {
   console.log(patternTable.toString());
   console.log('\n');
 
+  // Wrapper components, ranked by the call sites depending on them
+  if (analysis.wrappers.length > 0) {
+    const wrapperTable = new Table({
+      head: [chalk.bold('Wrapper Component'), chalk.bold('Call Sites'), chalk.bold('Built On')],
+      colWidths: [40, 15, 30],
+    });
+
+    analysis.wrappers.slice(0, 10).forEach((wrapper) => {
+      const shortPath = wrapper.file.split('/').slice(-2).join('/');
+      wrapperTable.push([`${wrapper.name} (${shortPath})`, wrapper.callSites.length.toString(), wrapper.dependsOn.join(', ')]);
+    });
+
+    console.log(chalk.bold('🧩 Formik Wrapper Components (migrate these first):'));
+    console.log(wrapperTable.toString());
+    console.log('\n');
+  }
+
   // Complexity Distribution
   console.log(chalk.bold('🎯 Complexity Distribution:'));
   console.log('');
@@ -86,7 +104,8 @@ export function generateConsoleReport(analysis: CodebaseAnalysis): void {
       const effort = getEffortIcon(file.estimatedEffort);
       const shortPath = file.filePath.split('/').slice(-3).join('/');
       console.log(`  ${index + 1}. ${shortPath}`);
-      console.log(`     ${effort} ${file.patterns.length} patterns • Effort: ${file.estimatedEffort}`);
+      const indirect = file.wrapperUsages.length > 0 ? ` • ${file.wrapperUsages.length} wrapper usages` : '';
+      console.log(`     ${effort} ${file.patterns.length} patterns${indirect} • Effort: ${file.estimatedEffort}`);
     });
     console.log('\n');
   }
@@ -121,7 +140,8 @@ export function generateMarkdownReport(analysis: CodebaseAnalysis): string {
   md += `- **Total Files Scanned:** ${analysis.totalFiles}\n`;
   md += `- **Files Using Formik:** ${analysis.formikFiles}\n`;
   md += `- **Auto-Convertible:** ${analysis.autoConvertible} ✓\n`;
-  md += `- **Manual Review Needed:** ${analysis.manualReviewNeeded} ⚠️\n\n`;
+  md += `- **Manual Review Needed:** ${analysis.manualReviewNeeded} ⚠️\n`;
+  md += `- **Indirect Usages (via wrappers):** ${analysis.indirectUsages}\n\n`;
   
   md += '## Pattern Breakdown\n\n';
   md += `| Pattern | Count |\n`;
@@ -131,6 +151,18 @@ export function generateMarkdownReport(analysis: CodebaseAnalysis): string {
   md += `| <Field> | ${analysis.patterns.Field} |\n`;
   md += `| <FieldArray> | ${analysis.patterns.FieldArray} |\n\n`;
   
+  if (analysis.wrappers.length > 0) {
+    md += '## Wrapper Components\n\n';
+    md += 'Project components built on Formik, most used first. Their call sites follow them.\n\n';
+    md += `| Component | File | Call Sites | Built On |\n`;
+    md += `|-----------|------|------------|----------|\n`;
+    analysis.wrappers.forEach((wrapper) => {
+      const shortPath = wrapper.file.split('/').slice(-4).join('/');
+      md += `| ${wrapper.name} | ${shortPath}:${wrapper.line} | ${wrapper.callSites.length} | ${wrapper.dependsOn.join(', ')} |\n`;
+    });
+    md += '\n';
+  }
+
   md += '## Complexity\n\n';
   md += `- 🟢 Simple: ${analysis.complexity.simple}\n`;
   md += `- 🟡 Medium: ${analysis.complexity.medium}\n`;
@@ -146,6 +178,9 @@ export function generateMarkdownReport(analysis: CodebaseAnalysis): string {
     const shortPath = file.filePath.split('/').slice(-4).join('/');
     md += `### ${shortPath}\n\n`;
     md += `- Patterns: ${file.patterns.length}\n`;
+    if (file.wrapperUsages.length > 0) {
+      md += `- Wrapper usages: ${file.wrapperUsages.length} (${[...new Set(file.wrapperUsages.map((usage) => usage.wrapper))].join(', ')})\n`;
+    }
     md += `- Effort: ${file.estimatedEffort}\n`;
     
     if (file.patterns.some((p) => !p.canAutoConvert)) {
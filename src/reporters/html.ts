@@ -21,6 +21,7 @@ export function generateHtmlReport(analysis: CodebaseAnalysis): string {
     patterns: f.patterns.length,
     autoConvertible: f.patterns.filter(p => p.canAutoConvert).length,
     manual: f.patterns.filter(p => !p.canAutoConvert).length,
+    indirect: f.wrapperUsages.length,
     effort: f.estimatedEffort,
   })));
 
@@ -342,6 +343,10 @@ export function generateHtmlReport(analysis: CodebaseAnalysis): string {
           <div class="pattern-name">&lt;FieldArray&gt;</div>
           <div class="pattern-count">${patterns.FieldArray}</div>
         </div>
+        <div class="pattern-card">
+          <div class="pattern-name">Wrapper call sites</div>
+          <div class="pattern-count">${analysis.indirectUsages}</div>
+        </div>
       </div>
 
       <div class="time-section">
@@ -379,6 +384,7 @@ export function generateHtmlReport(analysis: CodebaseAnalysis): string {
         <div class="file-badges">
           \${file.autoConvertible > 0 ? \`<span class="badge auto">\${file.autoConvertible} auto</span>\` : ''}
           \${file.manual > 0 ? \`<span class="badge manual">\${file.manual} manual</span>\` : ''}
+          \${file.indirect > 0 ? \`<span class="badge">\${file.indirect} via wrappers</span>\` : ''}
           <span class="badge effort-\${file.effort}">\${file.effort}</span>
         </div>
       \`;
@@ -0,0 +1,237 @@
+import type { NodePath } from '@babel/traverse';
+import * as t from '@babel/types';
+import { FormApi } from './form-api';
+import { buildErrorLookup } from './formik-bag';
+import {
+  formatLocation,
+  getJsxAttribute,
+  getJsxAttributeExpression,
+  getRenderedExpression,
+  getRenderFunction,
+  parseFieldPath,
+  replaceJsxElement,
+  toFieldPath,
+} from './utils';
+
+/**
+ * How converted `<ErrorMessage>` elements render errors:
+ * inline JSX over `formState.errors`, or the `@hookform/error-message` component
+ */
+export type ErrorMessageStyle = 'inline' | 'hookform';
+
+/**
+ * What the caller needs to know about a converted `<ErrorMessage>`
+ */
+export interface ErrorMessageConversion {
+  imports: string[];
+}
+
+type RenderFunction = NodePath<t.ArrowFunctionExpression | t.FunctionExpression>;
+
+/**
+ * Check whether an `<ErrorMessage>` element can be converted in the given
+ * style. Returns the reason it can't, or null when it's safe.
+ */
+export function getErrorMessageBlocker(
+  path: NodePath<t.JSXElement>,
+  style: ErrorMessageStyle = 'inline'
+): string | null {
+  const opening = path.node.openingElement;
+  const location = formatLocation(path.node);
+
+  if (opening.attributes.some((attr) => t.isJSXSpreadAttribute(attr))) {
+    return `Spread props on <ErrorMessage> (${location})`;
+  }
+
+  const name = getJsxAttributeExpression(getJsxAttribute(opening, 'name'));
+  if (!name) {
+    return `<ErrorMessage> without a name (${location})`;
+  }
+  if (style === 'inline' && !parseFieldPath(name)) {
+    return `<ErrorMessage> name is not a static field path (${location})`;
+  }
+
+  const component = getJsxAttribute(opening, 'component');
+  if (component && !getComponentName(component)) {
+    return `<ErrorMessage component> is not a tag name or component reference (${location})`;
+  }
+
+  const renderFn = getRenderFunction(path);
+  if (typeof renderFn === 'string') {
+    return renderFn;
+  }
+  if (!renderFn) {
+    const hasChildren = path.node.children.some((child) => !(t.isJSXText(child) && child.value.trim() === ''));
+    return hasChildren ? `<ErrorMessage> children are not a render function (${location})` : null;
+  }
+
+  const [param] = renderFn.node.params;
+  if (renderFn.node.params.length > 1 || (param && !t.isIdentifier(param))) {
+    return `<ErrorMessage> render function takes something other than the message (${location})`;
+  }
+  if (style === 'inline' && !getRenderedExpression(renderFn.node)) {
+    return `<ErrorMessage> render function has statements besides return (${location})`;
+  }
+
+  return null;
+}
+
+/**
+ * Convert `<ErrorMessage name="x" component="div" />` into error rendering
+ * over RHF's `formState.errors`. Returns the reason when it can't be converted.
+ */
+export function convertErrorMessage(
+  path: NodePath<t.JSXElement>,
+  api: FormApi,
+  style: ErrorMessageStyle = 'inline'
+): ErrorMessageConversion | string {
+  const blocker = getErrorMessageBlocker(path, style);
+  if (blocker) {
+    return blocker;
+  }
+
+  if (style === 'hookform') {
+    convertToHookformErrorMessage(path, api);
+    return { imports: ['ErrorMessage'] };
+  }
+
+  const opening = path.node.openingElement;
+  const segments = parseFieldPath(getJsxAttributeExpression(getJsxAttribute(opening, 'name'))!)!;
+  const renderFn = getRenderFunction(path) as RenderFunction | null;
+  const component = getJsxAttribute(opening, 'component');
+
+  // errors.email?.message guards the render, errors.email.message is read
+  // inside it; nested paths stay optional-chained throughout
+  const lookup = buildErrorLookup(api.formState('errors'), segments);
+  const message = (): t.Expression =>
+    segments.length === 1
+      ? t.memberExpression(
+          t.memberExpression(api.formState('errors'), segments[0].property, segments[0].computed),
+          t.identifier('message')
+        )
+      : t.cloneNode(lookup, true);
+
+  let rendered: t.Expression | null = null;
+
+  if (renderFn) {
+    const [param] = renderFn.node.params;
+    const binding = t.isIdentifier(param) ? renderFn.scope.getBinding(param.name) : undefined;
+    binding?.referencePaths.forEach((reference) => reference.replaceWith(message()));
+    rendered = getRenderedExpression(renderFn.node);
+  } else if (component) {
+    // Formik passes the remaining props through to the component
+    const tag = getComponentName(component)!;
+    const attributes = opening.attributes.filter(
+      (attr) => t.isJSXAttribute(attr) && !['name', 'component'].includes(attr.name.name as string)
+    );
+    rendered = t.jsxElement(
+      t.jsxOpeningElement(tag, attributes),
+      t.jsxClosingElement(t.cloneNode(tag, true)),
+      [t.jsxExpressionContainer(message())]
+    );
+  }
+
+  // A component may not return undefined (React 17 and below throw), so
+  // outside JSX children no error renders null
+  if (isJsxChild(path)) {
+    replaceJsxElement(path, rendered ? t.logicalExpression('&&', lookup, rendered) : lookup);
+  } else {
+    replaceJsxElement(
+      path,
+      rendered
+        ? t.conditionalExpression(lookup, rendered, t.nullLiteral())
+        : t.logicalExpression('??', lookup, t.nullLiteral())
+    );
+  }
+  return { imports: [] };
+}
+
+/**
+ * Whether an element is rendered as a JSX child, directly or through
+ * `{cond && <ErrorMessage />}` / `{cond ? <ErrorMessage /> : other}`
+ */
+function isJsxChild(path: NodePath): boolean {
+  let current = path;
+  while (
+    (current.parentPath?.isLogicalExpression() && current.key === 'right') ||
+    (current.parentPath?.isConditionalExpression() && current.key !== 'test') ||
+    current.parentPath?.isParenthesizedExpression()
+  ) {
+    current = current.parentPath;
+  }
+
+  const parent = current.parentPath?.isJSXExpressionContainer() ? current.parentPath.parentPath : current.parentPath;
+  return Boolean(parent?.isJSXElement() || parent?.isJSXFragment());
+}
+
+/**
+ * `<ErrorMessage name="x" component="p" />` →
+ * `<ErrorMessage errors={errors} name="x" as="p" />`
+ */
+function convertToHookformErrorMessage(path: NodePath<t.JSXElement>, api: FormApi) {
+  const opening = path.node.openingElement;
+  const renderFn = getRenderFunction(path) as RenderFunction | null;
+
+  const nameAttr = getJsxAttribute(opening, 'name')!;
+  const name = toFieldPath(getJsxAttributeExpression(nameAttr)!);
+  nameAttr.value = t.isStringLiteral(name) ? name : t.jsxExpressionContainer(name);
+
+  const component = getJsxAttribute(opening, 'component');
+  if (component) {
+    component.name = t.jsxIdentifier('as');
+  }
+
+  if (renderFn) {
+    // msg => ... → ({ message: msg }) => ...
+    const [param] = renderFn.node.params as t.Identifier[];
+    if (param) {
+      renderFn.node.params = [
+        t.objectPattern([
+          t.objectProperty(t.identifier('message'), param, false, param.name === 'message'),
+        ]),
+      ];
+    }
+
+    if (!getJsxAttribute(opening, 'render')) {
+      opening.attributes.push(t.jsxAttribute(t.jsxIdentifier('render'), t.jsxExpressionContainer(renderFn.node)));
+    }
+  }
+
+  opening.attributes.unshift(
+    t.jsxAttribute(t.jsxIdentifier('errors'), t.jsxExpressionContainer(api.formState('errors')))
+  );
+  opening.selfClosing = true;
+  path.node.closingElement = null;
+  path.node.children = [];
+}
+
+/**
+ * JSX name for a `component` prop: a tag string or a component reference
+ */
+function getComponentName(attr: t.JSXAttribute): t.JSXIdentifier | t.JSXMemberExpression | null {
+  const value = getJsxAttributeExpression(attr);
+
+  if (t.isStringLiteral(value) && /^[a-z][\w-]*$/i.test(value.value)) {
+    return t.jsxIdentifier(value.value);
+  }
+  // Lowercase identifiers would read as intrinsic tags in JSX
+  if (t.isIdentifier(value) && /^[A-Z]/.test(value.name)) {
+    return t.jsxIdentifier(value.name);
+  }
+  if (t.isMemberExpression(value)) {
+    return toJsxMemberName(value);
+  }
+
+  return null;
+}
+
+function toJsxMemberName(expression: t.Expression): t.JSXIdentifier | t.JSXMemberExpression | null {
+  if (t.isIdentifier(expression)) {
+    return t.jsxIdentifier(expression.name);
+  }
+  if (t.isMemberExpression(expression) && !expression.computed && t.isIdentifier(expression.property)) {
+    const object = toJsxMemberName(expression.object);
+    return object ? t.jsxMemberExpression(object, t.jsxIdentifier(expression.property.name)) : null;
+  }
+  return null;
+}
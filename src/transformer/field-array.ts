@@ -0,0 +1,417 @@
+import type { NodePath } from '@babel/traverse';
+import * as t from '@babel/types';
+import { getInitialValue } from './field';
+import { FormApi } from './form-api';
+import { collectBagReferences } from './formik-bag';
+import {
+  findEnclosingComponent,
+  findHookInsertionPoint,
+  formatLocation,
+  getJsxAttribute,
+  getJsxName,
+  getJsxStringAttribute,
+  getRenderedExpression,
+  getRenderFunction,
+  insertHoisted,
+  replaceJsxElement,
+  uniqueName,
+} from './utils';
+
+/**
+ * FieldArray helpers and their useFieldArray equivalents
+ */
+const HELPER_METHODS: Record<string, string> = {
+  push: 'append',
+  unshift: 'prepend',
+  insert: 'insert',
+  remove: 'remove',
+  swap: 'swap',
+  move: 'move',
+  replace: 'update',
+};
+
+/**
+ * Argument holding the new item, for the helpers taking one
+ */
+const ITEM_ARGUMENTS: Record<string, number> = {
+  push: 0,
+  unshift: 0,
+  insert: 1,
+  replace: 1,
+};
+
+/**
+ * `<FieldArray>` props the conversion understands
+ */
+const SUPPORTED_FIELD_ARRAY_PROPS = ['name', 'render', 'key'];
+
+/**
+ * What the caller needs to know about a converted `<FieldArray>`
+ */
+export interface FieldArrayConversion {
+  imports: string[];
+  warnings: string[];
+}
+
+type RenderFunction = NodePath<t.ArrowFunctionExpression | t.FunctionExpression>;
+
+/**
+ * Check whether a `<FieldArray>` element can be converted.
+ * Returns the reason it can't, or null when it's safe.
+ */
+export function getFieldArrayBlocker(path: NodePath<t.JSXElement>): string | null {
+  const opening = path.node.openingElement;
+  const location = formatLocation(path.node);
+
+  for (const attr of opening.attributes) {
+    if (t.isJSXSpreadAttribute(attr)) {
+      return `Spread props on <FieldArray> (${location})`;
+    }
+    const name = t.isJSXIdentifier(attr.name) ? attr.name.name : '';
+    if (!SUPPORTED_FIELD_ARRAY_PROPS.includes(name)) {
+      return `Unsupported <FieldArray> prop \`${name}\` (${location})`;
+    }
+  }
+
+  if (!getJsxStringAttribute(opening, 'name')) {
+    return `<FieldArray> without a static name (${location})`;
+  }
+
+  const renderFn = getRenderFunction(path);
+  if (typeof renderFn === 'string') {
+    return renderFn;
+  }
+  if (!renderFn) {
+    return `<FieldArray> without a render function (${location})`;
+  }
+  if (renderFn.node.params.length > 1) {
+    return `<FieldArray> render function takes more than one argument (${location})`;
+  }
+  if (!getRenderedExpression(renderFn.node)) {
+    return `<FieldArray> render function has statements besides return (${location})`;
+  }
+
+  let nested: t.Node | null = null;
+  t.traverseFast(renderFn.node, (node) => {
+    if (!nested && t.isJSXOpeningElement(node) && getJsxName(node.name) === 'FieldArray') {
+      nested = node;
+    }
+  });
+  if (nested) {
+    return `Nested <FieldArray> needs manual review (${formatLocation(nested)})`;
+  }
+
+  if (!findEnclosingComponent(path)) {
+    return `<FieldArray> is rendered inside a callback, so useFieldArray() can't be hoisted (${location})`;
+  }
+
+  if (renderFn.node.params.length === 1) {
+    const plan = planHelperRewrites(
+      renderFn.get('params.0') as NodePath<t.LVal>,
+      getJsxStringAttribute(opening, 'name')!,
+      () => 'fields'
+    );
+    if (plan.reason) {
+      return plan.reason;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Convert `<FieldArray name="x" render={helpers => ...} />` into a
+ * `useFieldArray({ control, name: 'x' })` call hoisted into the enclosing
+ * component. Returns the reason when the element can't be converted.
+ */
+export function convertFieldArray(
+  path: NodePath<t.JSXElement>,
+  api: FormApi,
+  takenNames: (component: t.Node) => Set<string>
+): FieldArrayConversion | string {
+  const blocker = getFieldArrayBlocker(path);
+  if (blocker) {
+    return blocker;
+  }
+
+  const component = findEnclosingComponent(path)!;
+  const statement = findHookInsertionPoint(component, path);
+  if (typeof statement === 'string') {
+    return statement;
+  }
+
+  const name = getJsxStringAttribute(path.node.openingElement, 'name')!;
+  const renderFn = getRenderFunction(path) as RenderFunction;
+  const warnings: string[] = [];
+
+  // const { fields, append, remove } = useFieldArray(...)
+  const taken = takenNames(component.node);
+  const pattern = t.objectPattern([]);
+  const names = new Map<string, string>();
+  const ensure = (key: string): string => {
+    if (!names.has(key)) {
+      const local = uniqueName(component.scope, key, taken);
+      names.set(key, local);
+      pattern.properties.push(t.objectProperty(t.identifier(key), t.identifier(local), false, local === key));
+    }
+    return names.get(key)!;
+  };
+
+  // useFieldArray only handles arrays of objects (it adds an `id` to each)
+  const initial = getInitialValue(api, t.stringLiteral(name), path);
+  const plain = t.isArrayExpression(initial) ? initial.elements.find((element) => t.isLiteral(element)) : null;
+  if (plain) {
+    return `<FieldArray name="${name}"> holds plain values; useFieldArray only supports arrays of objects (${formatLocation(plain)})`;
+  }
+
+  const fieldsName = ensure('fields');
+  let rewrites: Array<() => void> = [];
+
+  if (renderFn.node.params.length === 1) {
+    const plan = planHelperRewrites(renderFn.get('params.0') as NodePath<t.LVal>, name, ensure);
+    if (plan.reason) {
+      return plan.reason;
+    }
+    rewrites = plan.rewrites!;
+  }
+
+  rewrites.forEach((rewrite) => rewrite());
+
+  if (!rewriteListRendering(renderFn, name, fieldsName)) {
+    warnings.push(
+      `<FieldArray name="${name}"> renders no list over its values; check it uses \`${fieldsName}\` (${formatLocation(path.node)})`
+    );
+  }
+
+  replaceJsxElement(path, getRenderedExpression(renderFn.node));
+  insertHoisted(component, statement, [
+    t.variableDeclaration('const', [
+      t.variableDeclarator(
+        pattern,
+        t.callExpression(t.identifier('useFieldArray'), [
+          t.objectExpression([
+            t.objectProperty(t.identifier('control'), api.member('control')),
+            t.objectProperty(t.identifier('name'), t.stringLiteral(name)),
+          ]),
+        ])
+      ),
+    ]),
+  ]);
+
+  return { imports: ['useFieldArray'], warnings };
+}
+
+/**
+ * Plan the rewrite of every array helper usage onto useFieldArray methods
+ */
+function planHelperRewrites(
+  bindingPath: NodePath<t.LVal>,
+  name: string,
+  ensure: (key: string) => string
+): { rewrites: Array<() => void>; reason?: undefined } | { reason: string; rewrites?: undefined } {
+  const collected = collectBagReferences(bindingPath, 'FieldArray helpers');
+  if ('reason' in collected) {
+    return { reason: collected.reason };
+  }
+
+  const rewrites: Array<() => void> = [];
+
+  for (const { member, path } of collected.references) {
+    const location = formatLocation(path.node);
+    const parent = path.parentPath!;
+    const call = parent.isCallExpression() && parent.node.callee === path.node ? parent : null;
+
+    if (member === 'name') {
+      rewrites.push(() => {
+        path.replaceWith(t.stringLiteral(name));
+      });
+      continue;
+    }
+
+    if (member === 'form') {
+      return {
+        reason: `FieldArray helpers read Formik state through \`form\` (${location})`,
+      };
+    }
+
+    if (!call) {
+      return {
+        reason: `FieldArray helper \`${member}\` is passed around instead of called (${location})`,
+      };
+    }
+
+    // push(''): useFieldArray only supports arrays of objects
+    const helper = member.startsWith('handle') ? member.charAt(6).toLowerCase() + member.slice(7) : member;
+    const item = call.node.arguments[ITEM_ARGUMENTS[helper]];
+    if (item && t.isLiteral(item)) {
+      return {
+        reason: `FieldArray helper \`${member}\` adds a plain value; useFieldArray only supports arrays of objects (${location})`,
+      };
+    }
+
+    if (HELPER_METHODS[member]) {
+      if (isResultUsed(call)) {
+        return {
+          reason: `The return value of FieldArray helper \`${member}\` is used (${location})`,
+        };
+      }
+      rewrites.push(() => {
+        path.replaceWith(t.identifier(ensure(HELPER_METHODS[member])));
+      });
+      continue;
+    }
+
+    if (member === 'pop' && !isResultUsed(call)) {
+      // pop() → remove(fields.length - 1)
+      rewrites.push(() => {
+        call.replaceWith(t.callExpression(t.identifier(ensure('remove')), [lastIndex(ensure('fields'))]));
+      });
+      continue;
+    }
+
+    // handleRemove(index) → () => remove(index)
+    const curried = member.startsWith('handle') ? member.charAt(6).toLowerCase() + member.slice(7) : '';
+    if (HELPER_METHODS[curried] || curried === 'pop') {
+      rewrites.push(() => {
+        const body = curried === 'pop'
+          ? t.callExpression(t.identifier(ensure('remove')), [lastIndex(ensure('fields'))])
+          : t.callExpression(t.identifier(ensure(HELPER_METHODS[curried])), call.node.arguments);
+        call.replaceWith(t.arrowFunctionExpression([], body));
+      });
+      continue;
+    }
+
+    return {
+      reason: `FieldArray helper \`${member}\` has no useFieldArray equivalent (${location})`,
+    };
+  }
+
+  return { rewrites };
+}
+
+/**
+ * Switch `values.items.map((item, index) => <Row key={index} />)` to
+ * `fields.map((field, index) => <Row key={field.id} />)`. Returns false
+ * when no list over the array values was found.
+ */
+function rewriteListRendering(renderFn: RenderFunction, name: string, fieldsName: string): boolean {
+  let found = false;
+
+  renderFn.traverse({
+    CallExpression(callPath) {
+      const callee = callPath.node.callee;
+      if (
+        !t.isMemberExpression(callee) ||
+        !t.isIdentifier(callee.property, { name: 'map' }) ||
+        !isArrayValues(callee.object, name)
+      ) {
+        return;
+      }
+
+      found = true;
+      callee.object = t.identifier(fieldsName);
+
+      const callback = callPath.get('arguments.0') as NodePath;
+      if (!callback.isArrowFunctionExpression() && !callback.isFunctionExpression()) {
+        return;
+      }
+
+      // Key rows by the stable field.id instead of the index
+      const rendered = getRenderedExpression(callback.node);
+      if (t.isJSXElement(rendered)) {
+        const key = getItemKey(callback);
+        const keyAttr = getJsxAttribute(rendered.openingElement, 'key');
+        const value = t.jsxExpressionContainer(key);
+
+        if (keyAttr) {
+          keyAttr.value = value;
+        } else {
+          rendered.openingElement.attributes.unshift(t.jsxAttribute(t.jsxIdentifier('key'), value));
+        }
+      }
+    },
+  });
+
+  return found;
+}
+
+/**
+ * Expression for the row id inside a list callback (`field.id`)
+ */
+function getItemKey(callback: RenderFunction): t.Expression {
+  const [item] = callback.node.params;
+
+  if (t.isIdentifier(item)) {
+    return t.memberExpression(t.identifier(item.name), t.identifier('id'));
+  }
+
+  if (t.isObjectPattern(item)) {
+    const existing = item.properties.find(
+      (prop) => t.isObjectProperty(prop) && t.isIdentifier(prop.key, { name: 'id' }) && t.isIdentifier(prop.value)
+    ) as t.ObjectProperty | undefined;
+    if (existing) {
+      return t.identifier((existing.value as t.Identifier).name);
+    }
+
+    const local = uniqueName(callback.scope, 'id');
+    item.properties.unshift(t.objectProperty(t.identifier('id'), t.identifier(local), false, local === 'id'));
+    return t.identifier(local);
+  }
+
+  const field = t.identifier(uniqueName(callback.scope, 'field'));
+  if (item) {
+    callback.node.params[0] = field;
+  } else {
+    callback.node.params.unshift(field);
+  }
+  return t.memberExpression(field, t.identifier('id'));
+}
+
+/**
+ * Match the array's values: `watch('items')`, `getValues('items')`,
+ * `values.items` or `formik.values.items`
+ */
+function isArrayValues(node: t.Node, name: string): boolean {
+  if (t.isCallExpression(node)) {
+    const callee = node.callee;
+    const method = t.isIdentifier(callee)
+      ? callee.name
+      : t.isMemberExpression(callee) && t.isIdentifier(callee.property)
+        ? callee.property.name
+        : '';
+
+    return (
+      ['watch', 'getValues'].includes(method) &&
+      node.arguments.length === 1 &&
+      t.isStringLiteral(node.arguments[0], { value: name })
+    );
+  }
+
+  if (t.isMemberExpression(node) && !node.computed && t.isIdentifier(node.property, { name })) {
+    return (
+      t.isIdentifier(node.object, { name: 'values' }) ||
+      (t.isMemberExpression(node.object) && t.isIdentifier(node.object.property, { name: 'values' }))
+    );
+  }
+
+  return false;
+}
+
+function isResultUsed(call: NodePath<t.CallExpression>): boolean {
+  const parent = call.parentPath!;
+  return (
+    parent.isVariableDeclarator() ||
+    (parent.isAssignmentExpression() && parent.node.right === call.node) ||
+    parent.isReturnStatement() ||
+    (parent.isCallExpression() && parent.node.arguments.includes(call.node)) ||
+    parent.isMemberExpression()
+  );
+}
+
+function lastIndex(fieldsName: string): t.Expression {
+  return t.binaryExpression(
+    '-',
+    t.memberExpression(t.identifier(fieldsName), t.identifier('length')),
+    t.numericLiteral(1)
+  );
+}
@@ -0,0 +1,256 @@
+import type { NodePath } from '@babel/traverse';
+import * as t from '@babel/types';
+import { FormApi } from './form-api';
+import {
+  formatLocation,
+  getJsxAttribute,
+  getJsxAttributeExpression,
+  getJsxStringAttribute,
+  getPropertyName,
+  parseFieldPath,
+  resolveFunction,
+  resolveObjectLiteral,
+  toFieldPath,
+  uniqueName,
+} from './utils';
+
+/**
+ * What the caller needs to know about a converted `<Field>`
+ */
+export interface FieldConversion {
+  warnings: string[];
+}
+
+/**
+ * Field props that render something other than an input
+ */
+const CUSTOM_RENDER_PROPS = ['render', 'component', 'children', 'as'];
+
+/**
+ * Check whether a `<Field>` can become a native input spreading
+ * `register()`. Returns the reason it can't, or null when it's safe.
+ */
+export function getFieldBlocker(path: NodePath<t.JSXElement>): string | null {
+  const opening = path.node.openingElement;
+  const location = formatLocation(path.node);
+
+  const hasCustomRender =
+    CUSTOM_RENDER_PROPS.some((prop) => getJsxAttribute(opening, prop)) ||
+    path.node.children.some((child) => !t.isJSXText(child) || child.value.trim() !== '');
+  if (hasCustomRender) {
+    return 'Custom render/component prop needs adjustment';
+  }
+
+  if (!getJsxAttributeExpression(getJsxAttribute(opening, 'name'))) {
+    return `<Field> without a name (${location})`;
+  }
+
+  // register() hands out its own ref, the two would have to be merged
+  if (getJsxAttribute(opening, 'innerRef')) {
+    return `<Field innerRef> needs merging with the ref from register() (${location})`;
+  }
+
+  return null;
+}
+
+/**
+ * Convert `<Field name="x" validate={fn} ...>` into
+ * `<input {...register('x', { validate })} ...>`, keeping every other prop
+ * as it was. Returns the reason when it can't be converted.
+ */
+export function convertField(path: NodePath<t.JSXElement>, api: FormApi): FieldConversion | string {
+  const blocker = getFieldBlocker(path);
+  if (blocker) {
+    return blocker;
+  }
+
+  const opening = path.node.openingElement;
+  const location = formatLocation(path.node);
+  const warnings: string[] = [];
+
+  const name = toFieldPath(getJsxAttributeExpression(getJsxAttribute(opening, 'name'))!);
+  const type = getJsxAttribute(opening, 'type') ? getJsxStringAttribute(opening, 'type') : 'text';
+  const validateAttr = getJsxAttribute(opening, 'validate');
+  const dropped: t.JSXAttribute[] = validateAttr ? [validateAttr] : [];
+  const rules: t.ObjectProperty[] = [];
+
+  if (validateAttr) {
+    // RHF skips register() rules altogether once a resolver is set
+    if (api.resolver) {
+      return `<Field validate> would be ignored: its form validates through a resolver (${location})`;
+    }
+    if (api.resolver === null) {
+      warnings.push(`<Field validate> is ignored if its form validates through a resolver (${location})`);
+    }
+
+    const validatePath = path
+      .get('openingElement.attributes')
+      .find((attr) => attr.node === validateAttr)!
+      .get('value') as NodePath;
+    const validate = adaptValidator(validatePath, path);
+    if (!validate) {
+      return `<Field validate> is not a function (${location})`;
+    }
+
+    rules.push(t.objectProperty(t.identifier('validate'), validate));
+  }
+
+  // Formik parses number and range inputs, RHF only when asked to
+  if (type === 'number' || type === 'range') {
+    rules.push(t.objectProperty(t.identifier('valueAsNumber'), t.booleanLiteral(true)));
+  }
+
+  // A checkbox with a value collects an array of the checked values in
+  // Formik, unless the field holds a boolean
+  const valueAttr = getJsxAttribute(opening, 'value');
+  if (type === 'checkbox' && valueAttr) {
+    const initialValue = getInitialValue(api, name, path);
+    const value = getJsxStringAttribute(opening, 'value');
+
+    if (t.isArrayExpression(initialValue)) {
+      // RHF collects an array too when the default value is one
+    } else if (t.isBooleanLiteral(initialValue) || value === 'true' || value === 'false') {
+      // Without a value, RHF checkboxes hold a boolean
+      dropped.push(valueAttr);
+    } else {
+      warnings.push(
+        `Checkbox group ${describeName(name)} collects an array only when several checkboxes share its name - give it \`[]\` in defaultValues if it has a single one (${location})`
+      );
+    }
+  }
+
+  // <input {...register('x')} ...>: the remaining props keep overriding
+  // the field ones, as they do on <Field>
+  opening.name = t.jsxIdentifier('input');
+  opening.selfClosing = true;
+  const nameAttr = getJsxAttribute(opening, 'name');
+  opening.attributes = [
+    t.jsxSpreadAttribute(api.call('register', rules.length > 0 ? [name, t.objectExpression(rules)] : [name])),
+    ...(getJsxAttribute(opening, 'type') ? [] : [t.jsxAttribute(t.jsxIdentifier('type'), t.stringLiteral('text'))]),
+    ...opening.attributes.filter((attr) => attr !== nameAttr && !dropped.includes(attr as t.JSXAttribute)),
+  ];
+  path.node.closingElement = null;
+  path.node.children = [];
+
+  return { warnings };
+}
+
+/**
+ * Initial value of a field with a static path, read from the initialValues
+ * object literal. Returns null when it can't be told.
+ */
+export function getInitialValue(api: FormApi, name: t.Expression, field: NodePath): t.Expression | null {
+  const segments = parseFieldPath(name);
+  let current = resolveObjectLiteral(field.scope, api.defaultValues) as t.Expression | null;
+
+  for (const segment of segments ?? []) {
+    const key = t.isIdentifier(segment.property) && !segment.computed
+      ? segment.property.name
+      : t.isStringLiteral(segment.property) || t.isNumericLiteral(segment.property)
+        ? String(segment.property.value)
+        : null;
+
+    if (t.isObjectExpression(current) && key !== null) {
+      const prop = current.properties.find((candidate) => getPropertyName(candidate) === key);
+      current = t.isObjectProperty(prop) && t.isExpression(prop.value) ? prop.value : null;
+    } else if (t.isArrayExpression(current) && key !== null && /^\d+$/.test(key)) {
+      const element = current.elements[Number(key)];
+      current = t.isExpression(element) ? element : null;
+    } else {
+      current = null;
+    }
+  }
+
+  return segments ? current : null;
+}
+
+function describeName(name: t.Expression): string {
+  return t.isStringLiteral(name) ? `\`${name.value}\`` : 'with a dynamic name';
+}
+
+/**
+ * Formik field validators return an error message, or anything falsy when
+ * the value is valid. RHF takes any string as an error (even '') and
+ * `false` as a failure, so results are normalized to `message || true`.
+ * Inline validators are adjusted in place, others are wrapped.
+ */
+function adaptValidator(valuePath: NodePath, field: NodePath<t.JSXElement>): t.Expression | null {
+  const expressionPath = valuePath.isJSXExpressionContainer() ? valuePath.get('expression') : null;
+  if (!expressionPath?.isExpression()) {
+    return null;
+  }
+
+  if (expressionPath.isArrowFunctionExpression() || expressionPath.isFunctionExpression()) {
+    adaptReturns(expressionPath);
+    return expressionPath.node;
+  }
+  if (expressionPath.isLiteral() || expressionPath.isObjectExpression() || expressionPath.isArrayExpression()) {
+    return null;
+  }
+
+  const validator = expressionPath.node;
+  const value = t.identifier(uniqueName(field.scope, 'value'));
+  const call = t.callExpression(validator, [value]);
+
+  // Wrapping a validator that may return a promise needs an async wrapper
+  const resolved = resolveFunction(expressionPath);
+  if (resolved && !resolved.node.async) {
+    return t.arrowFunctionExpression([t.cloneNode(value)], adaptResult(call));
+  }
+
+  const wrapper = t.arrowFunctionExpression([t.cloneNode(value)], adaptResult(t.awaitExpression(call)));
+  wrapper.async = true;
+  return wrapper;
+}
+
+/**
+ * Normalize every value an inline validator returns
+ */
+function adaptReturns(fn: NodePath<t.ArrowFunctionExpression | t.FunctionExpression>) {
+  const body = fn.node.body;
+
+  if (t.isExpression(body)) {
+    fn.node.body = adaptResult(body);
+    return;
+  }
+
+  fn.traverse({
+    Function(nested) {
+      nested.skip();
+    },
+    ReturnStatement(statement) {
+      if (statement.node.argument) {
+        statement.node.argument = adaptResult(statement.node.argument);
+      }
+    },
+  });
+}
+
+/**
+ * `result || true`, leaving out results that already mean the same in RHF:
+ * non-empty messages and `undefined`
+ */
+function adaptResult(result: t.Expression): t.Expression {
+  if (t.isConditionalExpression(result)) {
+    result.consequent = adaptResult(result.consequent);
+    result.alternate = adaptResult(result.alternate);
+    return result;
+  }
+
+  const isMessage =
+    (t.isStringLiteral(result) && result.value !== '') ||
+    (t.isTemplateLiteral(result) && result.quasis.some((quasi) => quasi.value.cooked));
+  const isUndefined = t.isIdentifier(result, { name: 'undefined' }) || t.isUnaryExpression(result, { operator: 'void' });
+  if (isMessage || isUndefined) {
+    return result;
+  }
+
+  // '', null, false: valid
+  if (t.isStringLiteral(result) || t.isNullLiteral(result) || t.isBooleanLiteral(result, { value: false })) {
+    return t.booleanLiteral(true);
+  }
+
+  // (!value && 'Required') || true
+  const left = t.isLogicalExpression(result) ? t.parenthesizedExpression(result) : result;
+  return t.logicalExpression('||', left, t.booleanLiteral(true));
+}
@@ -0,0 +1,186 @@
+import type { Scope } from '@babel/traverse';
+import * as t from '@babel/types';
+import { getPropertyName, uniqueName } from './utils';
+
+/**
+ * Members of the object returned by `useForm()` / `useFormContext()`
+ */
+export type FormMethod =
+  | 'register'
+  | 'control'
+  | 'handleSubmit'
+  | 'watch'
+  | 'getValues'
+  | 'setValue'
+  | 'setError'
+  | 'clearErrors'
+  | 'reset'
+  | 'trigger'
+  | 'setFocus';
+
+/**
+ * Keys of RHF's `formState`
+ */
+export type FormStateKey =
+  | 'errors'
+  | 'touchedFields'
+  | 'dirtyFields'
+  | 'isDirty'
+  | 'isSubmitting'
+  | 'isSubmitted'
+  | 'isSubmitSuccessful'
+  | 'isValid'
+  | 'isValidating'
+  | 'submitCount'
+  | 'defaultValues';
+
+/**
+ * How the converted code reaches the RHF form methods.
+ *
+ * Either through an object (`const form = useForm()` → `form.register`)
+ * or through a destructuring pattern (`const { register } = useForm()`),
+ * in which case missing members are added to the pattern on demand.
+ */
+export class FormApi {
+  /** Submit handler that `handleSubmit` references should be bound to */
+  onSubmit: t.Expression | null = null;
+
+  /** Set once converted code renders `<FormProvider>` with this API */
+  provided = false;
+
+  /** Whether the form validates through a resolver; null when it isn't known (form context) */
+  resolver: boolean | null = null;
+
+  /** Formik initialValues the form was created with, when known */
+  defaultValues: t.Expression | null = null;
+
+  /** Formik's validateOnChange of the form (its default, true, when not known) */
+  validateOnChange = true;
+
+  /** Formik's validateOnBlur of the form (its default, true, when not known) */
+  validateOnBlur = true;
+
+  private constructor(
+    private readonly objectName: string | null,
+    private readonly pattern: t.ObjectPattern | null,
+    private readonly scope: Scope,
+    private readonly taken: Set<string>,
+    private readonly released: Set<string> = new Set()
+  ) {}
+
+  /**
+   * API reached through a plain identifier (`form.register`)
+   */
+  static object(name: string, scope: Scope, taken: Set<string> = new Set()): FormApi {
+    return new FormApi(name, null, scope, taken);
+  }
+
+  /**
+   * API reached through a destructuring pattern (`{ register }`).
+   * `released` holds names still bound in scope that are going away and
+   * may be reused for members of the same name.
+   */
+  static pattern(
+    pattern: t.ObjectPattern,
+    scope: Scope,
+    taken: Set<string> = new Set(),
+    released: Set<string> = new Set()
+  ): FormApi {
+    return new FormApi(null, pattern, scope, taken, released);
+  }
+
+  /**
+   * Name of the object holding the API, if any (used for `<FormProvider {...form}>`)
+   */
+  get name(): string | null {
+    return this.objectName;
+  }
+
+  /**
+   * Expression for a form method (`form.register` or `register`)
+   */
+  member(method: FormMethod): t.Expression {
+    if (this.objectName) {
+      return t.memberExpression(t.identifier(this.objectName), t.identifier(method));
+    }
+
+    return t.identifier(this.ensureProperty(this.pattern!, method));
+  }
+
+  /**
+   * Call a form method (`form.register('email')`)
+   */
+  call(method: FormMethod, args: Array<t.Expression | t.SpreadElement> = []): t.CallExpression {
+    return t.callExpression(this.member(method), args);
+  }
+
+  /**
+   * Expression for a `formState` entry (`form.formState.errors` or `errors`)
+   */
+  formState(key: FormStateKey): t.Expression {
+    if (this.objectName) {
+      return t.memberExpression(
+        t.memberExpression(t.identifier(this.objectName), t.identifier('formState')),
+        t.identifier(key)
+      );
+    }
+
+    const formState = this.pattern!.properties.find(
+      (prop): prop is t.ObjectProperty => getPropertyName(prop) === 'formState'
+    );
+
+    if (!formState) {
+      const nested = t.objectPattern([]);
+      this.pattern!.properties.push(t.objectProperty(t.identifier('formState'), nested));
+      return t.identifier(this.ensureProperty(nested, key));
+    }
+
+    if (t.isObjectPattern(formState.value)) {
+      return t.identifier(this.ensureProperty(formState.value, key));
+    }
+
+    if (t.isIdentifier(formState.value)) {
+      return t.memberExpression(t.identifier(formState.value.name), t.identifier(key));
+    }
+
+    // formState bound through something we don't understand - add a fresh binding
+    const local = this.localName(key);
+    this.pattern!.properties.push(
+      t.objectProperty(
+        t.identifier('formState'),
+        t.objectPattern([t.objectProperty(t.identifier(key), t.identifier(local))])
+      )
+    );
+    return t.identifier(local);
+  }
+
+  /**
+   * Find or add `key` in a destructuring pattern, returning the local name
+   */
+  private ensureProperty(pattern: t.ObjectPattern, key: string): string {
+    for (const prop of pattern.properties) {
+      if (getPropertyName(prop) === key && t.isObjectProperty(prop) && t.isIdentifier(prop.value)) {
+        return prop.value.name;
+      }
+    }
+
+    const local = this.localName(key);
+    pattern.properties.push(
+      t.objectProperty(t.identifier(key), t.identifier(local), false, local === key)
+    );
+    return local;
+  }
+
+  /**
+   * Pick a local name for a new binding, reusing a released one if possible
+   */
+  private localName(key: string): string {
+    if (this.released.has(key) && !this.taken.has(key)) {
+      this.released.delete(key);
+      this.taken.add(key);
+      return key;
+    }
+
+    return uniqueName(this.scope, key, this.taken);
+  }
+}
@@ -0,0 +1,293 @@
+import type { NodePath } from '@babel/traverse';
+import * as t from '@babel/types';
+import { FormApi } from './form-api';
+import { planBagRewrites } from './formik-bag';
+import { bindFormApi } from './use-formik';
+import {
+  findEnclosingComponent,
+  formatLocation,
+  getJsxName,
+  getPropertyName,
+  resolveFunction,
+} from './utils';
+
+/**
+ * What the caller needs to know about a converted `useFormikContext()` or
+ * `connect()`
+ */
+export interface FormContextConversion {
+  /** Function the RHF API is available in */
+  component: NodePath<t.Function>;
+  api: FormApi;
+  /** Name the context consumer is rendered under, if it has one */
+  name: string | null;
+  imports: string[];
+}
+
+/**
+ * Check whether every usage of a `useFormikContext()` result can be mapped
+ * onto `useFormContext()`. Returns the reason it can't, or null when it's safe.
+ */
+export function getUseFormikContextBlocker(path: NodePath<t.CallExpression>): string | null {
+  const location = formatLocation(path.node);
+  const declarator = path.parentPath;
+
+  if (!declarator.isVariableDeclarator() || declarator.node.init !== path.node) {
+    return `useFormikContext() result is not assigned to a variable (${location})`;
+  }
+
+  const component = findEnclosingComponent(path);
+  if (!component) {
+    return `useFormikContext() is called outside a function component or hook (${location})`;
+  }
+
+  const api = FormApi.object('form', component.scope);
+  return planBagRewrites(declarator.get('id') as NodePath<t.LVal>, api, component.node, 'the Formik context').reason ?? null;
+}
+
+/**
+ * Convert `const formik = useFormikContext()` into `useFormContext()`,
+ * rewriting every usage of the result like a `useFormik()` one.
+ * Returns the reason when it can't be converted.
+ */
+export function convertUseFormikContext(
+  path: NodePath<t.CallExpression>,
+  takenNames: (component: t.Node) => Set<string>
+): FormContextConversion | string {
+  const blocker = getUseFormikContextBlocker(path);
+  if (blocker) {
+    return blocker;
+  }
+
+  const declarator = path.parentPath as NodePath<t.VariableDeclarator>;
+  const component = findEnclosingComponent(path)!;
+  const idPath = declarator.get('id') as NodePath<t.LVal>;
+  const { api, pattern } = bindFormApi(idPath, component, takenNames(component.node));
+
+  const plan = planBagRewrites(idPath, api, component.node, 'the Formik context');
+  if (plan.reason) {
+    return plan.reason;
+  }
+  plan.rewrites!.forEach((rewrite) => rewrite());
+
+  if (pattern) {
+    declarator.node.id = pattern;
+  }
+  path.node.callee = t.identifier('useFormContext');
+  path.node.arguments = [];
+
+  return { component, api, name: getComponentName(component), imports: ['useFormContext'] };
+}
+
+/**
+ * Check whether a Formik `connect(Component)` can become a wrapper that
+ * injects `useFormContext()`. Returns the reason it can't, or null.
+ */
+export function getConnectBlocker(path: NodePath<t.CallExpression>): string | null {
+  const location = formatLocation(path.node);
+  const [arg] = path.node.arguments;
+
+  if (path.node.arguments.length !== 1 || !t.isIdentifier(arg)) {
+    return `connect() is called with something other than a component name (${location})`;
+  }
+
+  const inner = resolveFunction(path.get('arguments.0') as NodePath);
+  if (!inner) {
+    return `connect() wraps \`${arg.name}\`, which isn't a function component in this file (${location})`;
+  }
+
+  // The wrapped component gets the RHF API instead, so it may only be used here
+  if (path.scope.getBinding(arg.name)!.referencePaths.length !== 1) {
+    return `\`${arg.name}\` is used outside connect() too (${location})`;
+  }
+
+  const prop = getFormikProp(inner);
+  if (typeof prop === 'string') {
+    return prop;
+  }
+
+  // The prop is renamed `form`, along with its type
+  const props = inner.node.params[0] as t.ObjectPattern;
+  if (props.typeAnnotation && !findFormikPropType(props)) {
+    return `connect() component types its \`formik\` prop outside its parameter (${location})`;
+  }
+
+  const api = FormApi.object('form', inner.scope);
+  return planBagRewrites(prop.get('value') as NodePath<t.LVal>, api, inner.node, 'the formik prop').reason ?? null;
+}
+
+/**
+ * Convert `connect(Inner)` into `(props) => <Inner {...props} form={useFormContext()} />`,
+ * rewriting Inner's usages of its `formik` prop onto the injected `form`.
+ * In TypeScript files `props` is typed as Inner's props without `form`.
+ * Returns the reason when it can't be converted.
+ */
+export function convertConnect(
+  path: NodePath<t.CallExpression>,
+  takenNames: (component: t.Node) => Set<string>,
+  typescript = false
+): FormContextConversion | string {
+  const blocker = getConnectBlocker(path);
+  if (blocker) {
+    return blocker;
+  }
+
+  const innerName = (path.node.arguments[0] as t.Identifier).name;
+  const inner = resolveFunction(path.get('arguments.0') as NodePath)!;
+  const prop = getFormikProp(inner) as NodePath<t.ObjectProperty>;
+  const valuePath = prop.get('value') as NodePath<t.LVal>;
+
+  const { api, pattern } = bindFormApi(valuePath, inner, takenNames(inner.node));
+
+  const plan = planBagRewrites(valuePath, api, inner.node, 'the formik prop');
+  if (plan.reason) {
+    return plan.reason;
+  }
+  plan.rewrites!.forEach((rewrite) => rewrite());
+
+  // { formik } → { form }: the prop now carries the RHF API
+  const value = pattern ?? (prop.node.value as t.Identifier);
+  prop.node.key = t.identifier('form');
+  prop.node.value = value;
+  prop.node.shorthand = t.isIdentifier(value, { name: 'form' });
+
+  const propType = findFormikPropType(inner.node.params[0] as t.ObjectPattern);
+  if (propType) {
+    propType.key = t.identifier('form');
+  }
+
+  // (props: Omit<React.ComponentProps<typeof Inner>, 'form'>)
+  const props = t.identifier('props');
+  if (typescript) {
+    props.typeAnnotation = t.tsTypeAnnotation(
+      t.tsTypeReference(
+        t.identifier('Omit'),
+        t.tsTypeParameterInstantiation([
+          t.tsTypeReference(
+            t.tsQualifiedName(t.identifier('React'), t.identifier('ComponentProps')),
+            t.tsTypeParameterInstantiation([t.tsTypeQuery(t.identifier(innerName))])
+          ),
+          t.tsLiteralType(t.stringLiteral('form')),
+        ])
+      )
+    );
+  }
+
+  const name = path.parentPath.isVariableDeclarator() && t.isIdentifier(path.parentPath.node.id)
+    ? path.parentPath.node.id.name
+    : null;
+
+  path.replaceWith(
+    t.arrowFunctionExpression(
+      [props],
+      t.jsxElement(
+        t.jsxOpeningElement(
+          t.jsxIdentifier(innerName),
+          [
+            t.jsxSpreadAttribute(t.identifier('props')),
+            t.jsxAttribute(
+              t.jsxIdentifier('form'),
+              t.jsxExpressionContainer(t.callExpression(t.identifier('useFormContext'), []))
+            ),
+          ],
+          true
+        ),
+        null,
+        []
+      )
+    )
+  );
+
+  return { component: inner, api, name, imports: ['useFormContext'] };
+}
+
+/**
+ * Components reading the form context only work below a `<FormProvider>`.
+ * Returns a warning when a place rendering `name` in this file isn't wrapped
+ * in one, or when nothing in this file renders it.
+ */
+export function getProviderWarning(path: NodePath, name: string | null, node: t.Node = path.node): string | null {
+  const program = path.findParent((parent) => parent.isProgram());
+  const usages: Array<NodePath<t.JSXOpeningElement>> = [];
+
+  if (name && program) {
+    program.traverse({
+      JSXOpeningElement(usage) {
+        if (getJsxName(usage.node.name) === name) {
+          usages.push(usage);
+        }
+      },
+    });
+  }
+
+  if (usages.length === 0) {
+    return `${name ? `\`${name}\`` : 'Component'} reads the form context - make sure the component rendering it is wrapped in <FormProvider> (${formatLocation(node)})`;
+  }
+
+  const unwrapped = usages.find(
+    (usage) =>
+      !usage.findParent(
+        (parent) => parent.isJSXElement() && getJsxName(parent.node.openingElement.name) === 'FormProvider'
+      )
+  );
+  return unwrapped
+    ? `<${name}> reads the form context but is rendered outside a <FormProvider> (${formatLocation(unwrapped.node)})`
+    : null;
+}
+
+/**
+ * The `formik` property of a connected component's destructured props
+ */
+function getFormikProp(inner: NodePath<t.Function>): NodePath<t.ObjectProperty> | string {
+  const location = formatLocation(inner.node);
+  const [props] = inner.get('params');
+
+  if (!props?.isObjectPattern()) {
+    return `connect() component doesn't destructure its props (${location})`;
+  }
+
+  const prop = props
+    .get('properties')
+    .find((candidate) => getPropertyName(candidate.node) === 'formik');
+  if (!prop?.isObjectProperty() || prop.node.computed) {
+    return `connect() component doesn't destructure the \`formik\` prop (${location})`;
+  }
+
+  return prop;
+}
+
+/**
+ * The `formik` member of the type literal a connected component's props
+ * are annotated with (`{ formik: FormikContextType<Values> }`, possibly
+ * intersected with other props types), if any
+ */
+function findFormikPropType(props: t.ObjectPattern): t.TSPropertySignature | null {
+  const annotation = t.isTSTypeAnnotation(props.typeAnnotation) ? props.typeAnnotation.typeAnnotation : null;
+  const types = t.isTSIntersectionType(annotation) ? annotation.types : annotation ? [annotation] : [];
+
+  for (const type of types) {
+    const member = t.isTSTypeLiteral(type)
+      ? type.members.find(
+          (candidate): candidate is t.TSPropertySignature =>
+            t.isTSPropertySignature(candidate) && t.isIdentifier(candidate.key, { name: 'formik' })
+        )
+      : undefined;
+    if (member) {
+      return member;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Name a component is rendered under (`function Foo` / `const Foo = () => ...`)
+ */
+function getComponentName(component: NodePath<t.Function>): string | null {
+  if (t.isFunctionDeclaration(component.node) && component.node.id) {
+    return component.node.id.name;
+  }
+
+  const parent = component.parentPath;
+  return parent.isVariableDeclarator() && t.isIdentifier(parent.node.id) ? parent.node.id.name : null;
+}
@@ -0,0 +1,80 @@
+import type { NodePath } from '@babel/traverse';
+import * as t from '@babel/types';
+import { FormApi } from './form-api';
+import { formatLocation, getJsxAttribute, getJsxName } from './utils';
+
+/**
+ * Check whether a `<Form>` can be wired to the submit handler of its form:
+ * it has its own onSubmit, or sits inside the `<Formik>`/`<FormikProvider>`
+ * that defines it. Returns the reason it can't, or null.
+ */
+export function getFormElementBlocker(path: NodePath<t.JSXElement>): string | null {
+  const insideForm = path.findParent(
+    (parent) => parent.isJSXElement() && ['Formik', 'FormikProvider'].includes(getJsxName(parent.node.openingElement.name))
+  );
+
+  return insideForm || getJsxAttribute(path.node.openingElement, 'onSubmit') ? null : awayFromHandler(path);
+}
+
+/**
+ * Convert Formik's `<Form>` into a native `<form>` that submits through
+ * RHF: `<form onSubmit={handleSubmit(onSubmit)}>`, keeping its other props.
+ * `api` is the form it belongs to, if one was converted around it.
+ * Returns the reason when it can't be converted.
+ */
+export function convertFormElement(path: NodePath<t.JSXElement>, api: FormApi | null): string | null {
+  const opening = path.node.openingElement;
+  const hasOnSubmit = Boolean(getJsxAttribute(opening, 'onSubmit'));
+
+  // Formik's <Form> submits through the context; the handler lives with useForm()
+  if (!hasOnSubmit && !api?.onSubmit) {
+    return awayFromHandler(path);
+  }
+
+  opening.name = t.jsxIdentifier('form');
+  if (path.node.closingElement) {
+    path.node.closingElement.name = t.jsxIdentifier('form');
+  }
+
+  // An explicit onSubmit overrides Formik's, as it does on <Form>
+  if (!hasOnSubmit) {
+    opening.attributes.unshift(
+      t.jsxAttribute(
+        t.jsxIdentifier('onSubmit'),
+        t.jsxExpressionContainer(api!.call('handleSubmit', [t.cloneNode(api!.onSubmit!)]))
+      )
+    );
+  }
+
+  // <Form> also resets the form on native reset (<button type="reset">)
+  if (!getJsxAttribute(opening, 'onReset') && api && containsResetButton(path.node)) {
+    opening.attributes.push(
+      t.jsxAttribute(
+        t.jsxIdentifier('onReset'),
+        t.jsxExpressionContainer(t.arrowFunctionExpression([], api.call('reset')))
+      )
+    );
+  }
+
+  return null;
+}
+
+function awayFromHandler(path: NodePath<t.JSXElement>): string {
+  return `<Form> is rendered away from the onSubmit handler of its form (${formatLocation(path.node)})`;
+}
+
+function containsResetButton(node: t.JSXElement): boolean {
+  let found = false;
+
+  t.traverseFast(node, (child) => {
+    if (
+      t.isJSXAttribute(child) &&
+      t.isJSXIdentifier(child.name, { name: 'type' }) &&
+      t.isStringLiteral(child.value, { value: 'reset' })
+    ) {
+      found = true;
+    }
+  });
+
+  return found;
+}
@@ -0,0 +1,146 @@
+import type { NodePath } from '@babel/traverse';
+import * as t from '@babel/types';
+import { getPropertyName } from './utils';
+import { VALIDATE_RESOLVER } from './validate-resolver';
+
+/**
+ * Formik config keyed by option name (useFormik options or <Formik> props)
+ */
+export type FormikConfig = Record<string, t.Expression | undefined>;
+
+/**
+ * Formik options that take a literal boolean
+ */
+export const BOOLEAN_OPTIONS = ['validateOnChange', 'validateOnBlur', 'enableReinitialize'];
+
+/**
+ * useForm() options built from a Formik config
+ */
+export interface UseFormOptions {
+  properties: t.ObjectProperty[];
+  imports: string[];
+}
+
+/**
+ * Read a `useFormik({...})` options object into a config.
+ * Returns null for spreads or computed keys.
+ */
+export function readFormikConfig(options: t.ObjectExpression): FormikConfig | null {
+  const config: FormikConfig = {};
+
+  for (const prop of options.properties) {
+    const key = getPropertyName(prop);
+    if (!key) {
+      return null;
+    }
+
+    if (t.isObjectMethod(prop)) {
+      // onSubmit(values) { ... } → function (values) { ... }
+      config[key] = t.functionExpression(null, prop.params, prop.body, prop.generator, prop.async);
+    } else if (t.isObjectProperty(prop) && t.isExpression(prop.value)) {
+      config[key] = prop.value;
+    } else {
+      return null;
+    }
+  }
+
+  return config;
+}
+
+/**
+ * Path to an option's value in a `useFormik({...})` options object
+ * (the method itself for `onSubmit(values) { ... }`)
+ */
+export function getOptionPath(options: NodePath<t.ObjectExpression>, key: string): NodePath | null {
+  const prop = options.get('properties').find((propPath) => getPropertyName(propPath.node) === key);
+
+  if (!prop) {
+    return null;
+  }
+  return prop.isObjectMethod() ? prop : (prop.get('value') as NodePath);
+}
+
+/**
+ * Check whether a Formik config maps onto useForm() options.
+ * Returns the reason it doesn't, or null.
+ */
+export function getUseFormOptionsBlocker(config: FormikConfig, location: string): string | null {
+  for (const key of BOOLEAN_OPTIONS) {
+    const value = config[key];
+    if (value && !t.isBooleanLiteral(value)) {
+      return `\`${key}\` is not a literal true/false (${location})`;
+    }
+  }
+
+  if (config.validate && config.validationSchema) {
+    return `Both \`validate\` and \`validationSchema\` are set; RHF takes a single resolver (${location})`;
+  }
+
+  if (readFlag(config, 'enableReinitialize', false) && !config.initialValues) {
+    return `\`enableReinitialize\` is set without initialValues (${location})`;
+  }
+
+  return null;
+}
+
+/**
+ * Map Formik config onto useForm() options:
+ * initialValues → defaultValues, validationSchema / validate → resolver,
+ * validateOnChange/validateOnBlur → mode/reValidateMode,
+ * enableReinitialize → values
+ */
+export function buildUseFormOptions(config: FormikConfig): UseFormOptions {
+  const properties: t.ObjectProperty[] = [];
+  const imports: string[] = [];
+
+  if (config.initialValues) {
+    const shorthand = t.isIdentifier(config.initialValues, { name: 'defaultValues' });
+    properties.push(t.objectProperty(t.identifier('defaultValues'), config.initialValues, false, shorthand));
+
+    // RHF resets the form whenever `values` changes (compared deeply)
+    if (readFlag(config, 'enableReinitialize', false)) {
+      properties.push(t.objectProperty(t.identifier('values'), t.cloneNode(config.initialValues, true)));
+    }
+  }
+
+  // Formik validates on change and blur unless told otherwise, where RHF
+  // waits for the first submit: the mode is always set, the same whether
+  // Formik's defaults are written out or not
+  const onChange = readFlag(config, 'validateOnChange', true);
+  const onBlur = readFlag(config, 'validateOnBlur', true);
+  const mode = onChange && onBlur ? 'all' : onChange ? 'onChange' : onBlur ? 'onBlur' : 'onSubmit';
+
+  properties.push(t.objectProperty(t.identifier('mode'), t.stringLiteral(mode)));
+  // RHF revalidates on change after a submit unless told otherwise
+  if (mode === 'onBlur' || mode === 'onSubmit') {
+    properties.push(t.objectProperty(t.identifier('reValidateMode'), t.stringLiteral(mode)));
+  }
+
+  if (config.validationSchema) {
+    properties.push(
+      t.objectProperty(
+        t.identifier('resolver'),
+        t.callExpression(t.identifier('yupResolver'), [config.validationSchema])
+      )
+    );
+    imports.push('yupResolver');
+  }
+
+  // validate keeps working through the shared resolver adapter
+  if (config.validate) {
+    properties.push(
+      t.objectProperty(t.identifier('resolver'), t.callExpression(t.identifier(VALIDATE_RESOLVER), [config.validate]))
+    );
+    imports.push(VALIDATE_RESOLVER);
+  }
+
+  return { properties, imports };
+}
+
+/**
+ * Value of a boolean Formik option, or `fallback` when it isn't set
+ */
+export function readFlag(config: FormikConfig, key: string, fallback: boolean): boolean {
+  const value = config[key];
+  return t.isBooleanLiteral(value) ? value.value : fallback;
+}
@@ -0,0 +1,839 @@
+import type { NodePath, Binding, Scope } from '@babel/traverse';
+import * as t from '@babel/types';
+import { FormApi, FormStateKey } from './form-api';
+import {
+  formatLocation,
+  getJsxAttribute,
+  getJsxAttributeExpression,
+  getJsxStringAttribute,
+  getPropertyName,
+  isInsideCallback,
+  PathSegment,
+  resolveObjectLiteral,
+  toFieldPath,
+} from './utils';
+
+/**
+ * A single usage of a Formik bag member, e.g. `formik.values` or a
+ * destructured `errors`
+ */
+export interface BagReference {
+  member: string;
+  path: NodePath<t.Expression>;
+}
+
+/**
+ * Result of planning bag rewrites: either a list of rewrites to apply,
+ * or the reason the bag can't be converted
+ */
+export type BagRewritePlan =
+  | { rewrites: Array<() => void>; reason?: undefined }
+  | { reason: string; rewrites?: undefined };
+
+/**
+ * Formik state flags that map 1:1 onto RHF `formState`
+ */
+const FORM_STATE_MEMBERS: Record<string, FormStateKey> = {
+  isSubmitting: 'isSubmitting',
+  dirty: 'isDirty',
+  isValid: 'isValid',
+  isValidating: 'isValidating',
+  submitCount: 'submitCount',
+  initialValues: 'defaultValues',
+};
+
+/**
+ * Pseudo member for the bag being handed to `<FormikProvider value={formik}>`
+ */
+export const PROVIDER_VALUE = '<FormikProvider>';
+
+/**
+ * Pseudo member for the bag being destructured again
+ * (`const { values } = formik`); its members are collected on their own
+ */
+export const DESTRUCTURED = '<destructuring>';
+
+/**
+ * Plan the rewrite of every usage of a Formik bag (the `useFormik()` return
+ * value, or the `<Formik>` render-prop argument) onto the RHF API.
+ *
+ * Nothing is mutated until the returned rewrites are run, so callers can
+ * bail out with the reason if any usage can't be mapped. Members `include`
+ * rejects are left alone (e.g. a component's own props next to injected ones).
+ */
+export function planBagRewrites(
+  bindingPath: NodePath<t.LVal>,
+  api: FormApi,
+  renderBoundary: t.Node,
+  label = 'the Formik bag',
+  include: (member: string) => boolean = () => true
+): BagRewritePlan {
+  const collected = collectBagReferences(bindingPath, label, include);
+  if ('reason' in collected) {
+    return { reason: collected.reason };
+  }
+
+  const rewrites: Array<{ depth: number; path: NodePath; apply: () => void }> = [];
+  const rewiredElements = new Map<t.JSXOpeningElement, InputRewire>();
+
+  for (const ref of collected.references) {
+    const depth = ref.path.getAncestry().length;
+
+    // const { values, label } = props: the members being rewritten go away
+    if (ref.member === DESTRUCTURED) {
+      const declarator = ref.path.parentPath as NodePath<t.VariableDeclarator>;
+      rewrites.push({
+        depth,
+        path: ref.path,
+        apply: () => {
+          const pattern = declarator.node.id as t.ObjectPattern;
+          pattern.properties = pattern.properties.filter((prop) => {
+            const member = getPropertyName(prop);
+            return !member || !include(member);
+          });
+          if (pattern.properties.length === 0) {
+            declarator.remove();
+          }
+        },
+      });
+      continue;
+    }
+
+    // handleChange / handleBlur wire inputs by name - group them per element
+    if (ref.member === 'handleChange' || ref.member === 'handleBlur') {
+      const element = getWiredElement(ref.path);
+      if (!element) {
+        return {
+          reason: `\`${ref.member}\` is used outside an input's onChange/onBlur (${formatLocation(ref.path.node)})`,
+        };
+      }
+
+      const fieldName =
+        getJsxStringAttribute(element.node, 'name') ?? getJsxStringAttribute(element.node, 'id');
+      if (!fieldName) {
+        return {
+          reason: `Input wired to \`${ref.member}\` has no static name (${formatLocation(element.node)})`,
+        };
+      }
+
+      if (!rewiredElements.has(element.node)) {
+        const rewire: InputRewire = { element, fieldName, attributes: new Set() };
+        rewiredElements.set(element.node, rewire);
+        rewrites.push({ depth, path: element, apply: () => applyInputRewire(rewire, api) });
+      }
+      rewiredElements.get(element.node)!.attributes.add(ref.member === 'handleChange' ? 'onChange' : 'onBlur');
+      continue;
+    }
+
+    const rewrite = planMemberRewrite(ref, api, renderBoundary);
+    if (typeof rewrite === 'string') {
+      return { reason: rewrite };
+    }
+    rewrites.push({ depth, path: ref.path, apply: rewrite });
+  }
+
+  // Value bindings on rewired inputs are covered by register()
+  const consumed: t.Node[] = [];
+  for (const rewire of rewiredElements.values()) {
+    for (const name of ['value', 'checked']) {
+      const attr = getJsxAttribute(rewire.element.node, name);
+      const value = getJsxAttributeExpression(attr);
+      if (value && collected.references.some((ref) => ref.member === 'values' && isWithin(ref.path, value))) {
+        rewire.attributes.add(name);
+        consumed.push(value);
+      }
+    }
+  }
+
+  // Apply the deepest usages first so outer rewrites see the updated nodes
+  rewrites.sort((a, b) => b.depth - a.depth);
+
+  return {
+    rewrites: rewrites
+      .filter(({ path }) => !consumed.some((node) => isWithin(path, node)))
+      .map(({ apply }) => apply),
+  };
+}
+
+/**
+ * Find every usage of the members of a bag-like object (the Formik bag,
+ * FieldArray helpers, ...), bound either to an identifier or a destructuring.
+ * Members `include` rejects aren't collected.
+ */
+export function collectBagReferences(
+  bindingPath: NodePath<t.LVal>,
+  label = 'the Formik bag',
+  include: (member: string) => boolean = () => true
+): { references: BagReference[] } | { reason: string } {
+  const references: BagReference[] = [];
+  const checkBinding = (binding: Binding | undefined, name: string): string | null => {
+    if (!binding) {
+      return `Cannot resolve binding for \`${name}\``;
+    }
+    if (binding.constantViolations.length > 0) {
+      return `\`${name}\` is reassigned (${formatLocation(binding.constantViolations[0].node)})`;
+    }
+    return null;
+  };
+
+  if (bindingPath.isIdentifier()) {
+    const name = bindingPath.node.name;
+    const binding = bindingPath.scope.getBinding(name);
+    const problem = checkBinding(binding, name);
+    if (problem) {
+      return { reason: problem };
+    }
+
+    for (const refPath of binding!.referencePaths) {
+      // <FormikProvider value={formik}> shares the whole bag through context
+      if (getProviderElement(refPath)) {
+        references.push({ member: PROVIDER_VALUE, path: refPath as NodePath<t.Expression> });
+        continue;
+      }
+
+      // const { values, errors } = formik
+      const parent = refPath.parentPath!;
+      if (parent.isVariableDeclarator() && parent.node.init === refPath.node && t.isObjectPattern(parent.node.id)) {
+        const nested = collectBagReferences(parent.get('id') as NodePath<t.LVal>, label, include);
+        if ('reason' in nested) {
+          return nested;
+        }
+        references.push(...nested.references, { member: DESTRUCTURED, path: refPath as NodePath<t.Expression> });
+        continue;
+      }
+
+      const member = parent.isMemberExpression() && parent.node.object === refPath.node
+        ? getMemberName(parent.node)
+        : null;
+
+      if (!member) {
+        return {
+          reason: `\`${name}\` is used as a whole and can't be mapped member by member (${formatLocation(refPath.node)})`,
+        };
+      }
+      if (!include(member)) {
+        continue;
+      }
+      references.push({ member, path: parent as NodePath<t.Expression> });
+    }
+
+    return { references };
+  }
+
+  if (bindingPath.isObjectPattern()) {
+    for (const prop of bindingPath.node.properties) {
+      const member = getPropertyName(prop);
+      if (member && !include(member)) {
+        continue;
+      }
+      if (!member || !t.isObjectProperty(prop) || !t.isIdentifier(prop.value)) {
+        return {
+          reason: `Unsupported destructuring of ${label} (${formatLocation(prop)})`,
+        };
+      }
+
+      const binding = bindingPath.scope.getBinding(prop.value.name);
+      const problem = checkBinding(binding, prop.value.name);
+      if (problem) {
+        return { reason: problem };
+      }
+
+      binding!.referencePaths.forEach((refPath) => {
+        references.push({ member, path: refPath as NodePath<t.Expression> });
+      });
+    }
+
+    return { references };
+  }
+
+  return { reason: `Unsupported binding of ${label} (${formatLocation(bindingPath.node)})` };
+}
+
+/**
+ * Plan the rewrite of a single member usage. Returns the reason as a string
+ * when the member has no mapping.
+ */
+function planMemberRewrite(
+  ref: BagReference,
+  api: FormApi,
+  renderBoundary: t.Node
+): (() => void) | string {
+  const { member, path } = ref;
+  const location = formatLocation(path.node);
+  const parent = path.parentPath!;
+  const isCallee = parent.isCallExpression() && parent.node.callee === path.node;
+
+  if (isAssignmentTarget(path)) {
+    return `Formik \`${member}\` is mutated directly (${location})`;
+  }
+
+  switch (member) {
+    case PROVIDER_VALUE: {
+      if (!api.name) {
+        return `Formik bag passed to <FormikProvider> can't be mapped (${location})`;
+      }
+
+      // <FormikProvider value={formik}> → <FormProvider {...form}>
+      return () => {
+        const element = getProviderElement(path)!;
+        element.node.openingElement.name = t.jsxIdentifier('FormProvider');
+        if (element.node.closingElement) {
+          element.node.closingElement.name = t.jsxIdentifier('FormProvider');
+        }
+        element.node.openingElement.attributes = element.node.openingElement.attributes.map((attr) =>
+          t.isJSXAttribute(attr) && attr.name.name === 'value' ? t.jsxSpreadAttribute(t.identifier(api.name!)) : attr
+        );
+        api.provided = true;
+      };
+    }
+
+    case 'values': {
+      const method = isInsideCallback(path, renderBoundary) ? 'getValues' : 'watch';
+
+      // values.email → watch('email'); deeper access stays on the watched value
+      if (parent.isMemberExpression() && parent.node.object === path.node) {
+        if (isAssignmentTarget(parent)) {
+          return `Formik \`values\` is mutated directly (${location})`;
+        }
+        return () => {
+          const field = parent.node.computed
+            ? (parent.node.property as t.Expression)
+            : t.stringLiteral((parent.node.property as t.Identifier).name);
+          parent.replaceWith(api.call(method, [field]));
+        };
+      }
+
+      return () => {
+        path.replaceWith(api.call(method));
+      };
+    }
+
+    case 'errors':
+      return () => {
+        replaceErrorLookup(path, api);
+      };
+
+    case 'touched':
+      return () => {
+        path.replaceWith(api.formState('touchedFields'));
+      };
+
+    case 'handleSubmit':
+    case 'submitForm': {
+      if (!api.onSubmit) {
+        return `\`${member}\` is used but the form has no onSubmit handler (${location})`;
+      }
+
+      return () => {
+        const submit = api.call('handleSubmit', [t.cloneNode(api.onSubmit!)]);
+        // submitForm() submits immediately; handleSubmit keeps the event
+        path.replaceWith(member === 'submitForm' && !isCallee ? t.callExpression(submit, []) : submit);
+      };
+    }
+
+    case 'getFieldProps': {
+      if (!isCallee) {
+        return `\`getFieldProps\` is used without being called (${location})`;
+      }
+      const [field] = (parent.node as t.CallExpression).arguments;
+      if (!field || t.isObjectExpression(field)) {
+        return `\`getFieldProps\` is called with a config object (${location})`;
+      }
+      return () => {
+        path.replaceWith(api.member('register'));
+      };
+    }
+
+    case 'resetForm':
+    case 'handleReset': {
+      if (!isCallee) {
+        return () => {
+          path.replaceWith(t.arrowFunctionExpression([], api.call('reset')));
+        };
+      }
+
+      const args = (parent.node as t.CallExpression).arguments;
+      if (member === 'handleReset' || args.length === 0) {
+        return () => {
+          parent.replaceWith(api.call('reset'));
+        };
+      }
+
+      // resetForm({ values }) → reset(values)
+      const [nextState] = args;
+      const valuesProp = t.isObjectExpression(nextState) && nextState.properties.length === 1
+        ? nextState.properties.find((prop) => getPropertyName(prop) === 'values')
+        : undefined;
+      if (!valuesProp || !t.isObjectProperty(valuesProp) || !t.isExpression(valuesProp.value)) {
+        return `\`resetForm\` is called with a state object other than { values } (${location})`;
+      }
+      return () => {
+        parent.replaceWith(api.call('reset', [valuesProp.value as t.Expression]));
+      };
+    }
+
+    case 'setSubmitting': {
+      // RHF tracks isSubmitting itself while an async submit handler runs
+      if (!isCallee) {
+        return `\`setSubmitting\` is used without being called (${location})`;
+      }
+      const container = parent.parentPath!;
+      if (container.isExpressionStatement()) {
+        return () => {
+          container.remove();
+        };
+      }
+      if (container.isArrowFunctionExpression() && container.node.body === parent.node) {
+        return () => {
+          container.node.body = t.blockStatement([]);
+        };
+      }
+      return `The result of \`setSubmitting\` is used (${location})`;
+    }
+
+    case 'setErrors': {
+      if (!isCallee) {
+        return `\`setErrors\` is used without being called (${location})`;
+      }
+      const [errors] = (parent.node as t.CallExpression).arguments;
+      const entries = t.isObjectExpression(errors) ? flattenErrors(errors) : null;
+      if (!entries) {
+        return `\`setErrors\` is called with something other than an object literal (${location})`;
+      }
+
+      // setErrors({ email: 'Taken' }) → setError('email', { type: 'manual', message: 'Taken' })
+      return () => {
+        replaceCall(
+          parent as NodePath<t.CallExpression>,
+          entries.length === 0
+            ? [api.call('clearErrors')]
+            : entries.map(([field, message]) => buildSetError(api, t.stringLiteral(field), message))
+        );
+      };
+    }
+
+    case 'setFieldError': {
+      if (!isCallee) {
+        return `\`setFieldError\` is used without being called (${location})`;
+      }
+      const [field, message] = (parent.node as t.CallExpression).arguments;
+      if (!t.isExpression(field) || (message && !t.isExpression(message))) {
+        return `\`setFieldError\` is called with unsupported arguments (${location})`;
+      }
+
+      return () => {
+        const name = toFieldPath(field);
+        replaceCall(parent as NodePath<t.CallExpression>, [
+          !message || t.isIdentifier(message, { name: 'undefined' })
+            ? api.call('clearErrors', [name])
+            : buildSetError(api, name, message as t.Expression),
+        ]);
+      };
+    }
+
+    case 'setFieldValue':
+    case 'setFieldTouched': {
+      if (!isCallee) {
+        return `\`${member}\` is used without being called (${location})`;
+      }
+      const call = parent as NodePath<t.CallExpression>;
+      const [field, second, shouldValidate] = call.node.arguments;
+      if (!t.isExpression(field) || (second && !t.isExpression(second)) || (shouldValidate && !t.isExpression(shouldValidate))) {
+        return `\`${member}\` is called with unsupported arguments (${location})`;
+      }
+      if (isResultUsed(call)) {
+        return `The result of \`${member}\` is used, \`setValue\` doesn't return anything (${location})`;
+      }
+
+      // RHF can mark a field touched, but not untouched again
+      if (member === 'setFieldTouched' && second && !t.isBooleanLiteral(second, { value: true })) {
+        return `\`setFieldTouched\` is called with an isTouched other than \`true\` (${location})`;
+      }
+
+      // setFieldValue('email', v) → setValue('email', v, { shouldValidate: true, shouldDirty: true })
+      // setFieldTouched('email') → setValue('email', getValues('email'), { shouldValidate: true, shouldTouch: true })
+      // (validating by default when the form validates on change / on blur)
+      return () => {
+        const name = toFieldPath(field);
+        const value = member === 'setFieldValue'
+          ? (second as t.Expression | undefined) ?? t.identifier('undefined')
+          : api.call('getValues', [t.cloneNode(name)]);
+        const options = member === 'setFieldValue'
+          ? buildSetValueOptions(shouldValidate as t.Expression | undefined, api.validateOnChange, 'shouldDirty')
+          : buildSetValueOptions(shouldValidate as t.Expression | undefined, api.validateOnBlur, 'shouldTouch');
+
+        call.replaceWith(api.call('setValue', [name, value, options]));
+      };
+    }
+
+    case 'setValues': {
+      if (!isCallee) {
+        return `\`setValues\` is used without being called (${location})`;
+      }
+      const call = parent as NodePath<t.CallExpression>;
+      const [values, shouldValidate] = call.node.arguments;
+      if (!t.isExpression(values) || t.isFunction(values) || (shouldValidate && !t.isExpression(shouldValidate))) {
+        return `\`setValues\` is called with unsupported arguments (${location})`;
+      }
+      if (isResultUsed(call)) {
+        return `The result of \`setValues\` is used, RHF's setters don't return anything (${location})`;
+      }
+
+      return () => {
+        const entries = getValueEntries(call.node.arguments[0] as t.Expression, api, call.scope);
+
+        // setValues({ ...values, city: '' }) → setValue('city', '', ...)
+        if (entries) {
+          replaceCall(
+            call,
+            entries.map(([key, value]) =>
+              api.call('setValue', [
+                t.stringLiteral(key),
+                value,
+                buildSetValueOptions(
+                  shouldValidate && t.cloneNode(shouldValidate as t.Expression),
+                  api.validateOnChange,
+                  'shouldDirty'
+                ),
+              ])
+            )
+          );
+          return;
+        }
+
+        // Formik replaces the values but keeps the initial ones, errors and
+        // touched state; reset() only does so when told to
+        const keep = ['keepDefaultValues', 'keepErrors', 'keepTouched', 'keepIsSubmitted', 'keepSubmitCount'];
+        const calls: t.Expression[] = [
+          api.call('reset', [
+            call.node.arguments[0] as t.Expression,
+            t.objectExpression(keep.map((key) => t.objectProperty(t.identifier(key), t.booleanLiteral(true)))),
+          ]),
+        ];
+        if (shouldValidate ? !t.isBooleanLiteral(shouldValidate, { value: false }) : api.validateOnChange) {
+          const trigger = api.call('trigger');
+          calls.push(
+            shouldValidate && !t.isBooleanLiteral(shouldValidate)
+              ? t.logicalExpression('&&', shouldValidate as t.Expression, trigger)
+              : trigger
+          );
+        }
+        replaceCall(call, calls);
+      };
+    }
+
+    case 'validateForm':
+    case 'validateField': {
+      if (!isCallee) {
+        return `\`${member}\` is used without being called (${location})`;
+      }
+      const call = parent as NodePath<t.CallExpression>;
+      const args = call.node.arguments;
+
+      // validateForm() resolves to the errors, trigger() to whether the form is valid
+      if (isResultUsed(call)) {
+        return member === 'validateForm'
+          ? `The result of \`validateForm\` is used: it resolves to the errors object, \`trigger\` to a boolean (${location})`
+          : `The result of \`validateField\` is used: \`trigger\` resolves to a boolean instead (${location})`;
+      }
+      if (member === 'validateForm' ? args.length > 0 : args.length !== 1 || !t.isExpression(args[0])) {
+        return `\`${member}\` is called with unsupported arguments (${location})`;
+      }
+
+      // validateForm() → trigger(), validateField('email') → trigger('email')
+      return () => {
+        call.replaceWith(api.call('trigger', args.length > 0 ? [toFieldPath(args[0] as t.Expression)] : []));
+      };
+    }
+
+    default: {
+      const stateKey = FORM_STATE_MEMBERS[member];
+      if (stateKey) {
+        return () => {
+          path.replaceWith(api.formState(stateKey));
+        };
+      }
+
+      return `Formik \`${member}\` has no automatic React Hook Form mapping (${location})`;
+    }
+  }
+}
+
+/**
+ * The `<FormikProvider>` element a bag reference is the `value` of
+ */
+export function getProviderElement(path: NodePath): NodePath<t.JSXElement> | null {
+  const container = path.parentPath;
+  const attr = container?.parentPath;
+  const element = attr?.parentPath?.parentPath;
+
+  if (
+    container?.isJSXExpressionContainer() &&
+    attr?.isJSXAttribute() &&
+    t.isJSXIdentifier(attr.node.name, { name: 'value' }) &&
+    element?.isJSXElement() &&
+    t.isJSXIdentifier(element.node.openingElement.name, { name: 'FormikProvider' })
+  ) {
+    return element;
+  }
+
+  return null;
+}
+
+/**
+ * `setError(name, { type: 'manual', message })`
+ */
+function buildSetError(api: FormApi, name: t.Expression, message: t.Expression): t.CallExpression {
+  return api.call('setError', [
+    name,
+    t.objectExpression([
+      t.objectProperty(t.identifier('type'), t.stringLiteral('manual')),
+      t.objectProperty(t.identifier('message'), message),
+    ]),
+  ]);
+}
+
+/**
+ * Options making `setValue()` behave like Formik's setters: unless told
+ * otherwise they validate when the form does (`validates`, from its
+ * validateOnChange / validateOnBlur), and update dirty or touched state
+ */
+function buildSetValueOptions(
+  shouldValidate: t.Expression | undefined,
+  validates: boolean,
+  update: 'shouldDirty' | 'shouldTouch'
+): t.ObjectExpression {
+  return t.objectExpression([
+    t.objectProperty(t.identifier('shouldValidate'), shouldValidate ?? t.booleanLiteral(validates)),
+    t.objectProperty(t.identifier(update), t.booleanLiteral(true)),
+  ]);
+}
+
+/**
+ * Split the object literal passed to `setValues()` into `[field, value]`
+ * entries, when setting them one by one leaves the same values as
+ * replacing them: it starts from the current values (`{ ...values, city }`)
+ * or lists every initial field. Returns null otherwise.
+ */
+function getValueEntries(values: t.Expression, api: FormApi, scope: Scope): Array<[string, t.Expression]> | null {
+  if (!t.isObjectExpression(values)) {
+    return null;
+  }
+
+  // The usages inside were rewritten first: `...values` is `...getValues()` by now
+  const [first, ...rest] = values.properties;
+  const keepsValues = t.isSpreadElement(first) && isCurrentValues(first.argument);
+  const entries: Array<[string, t.Expression]> = [];
+
+  for (const prop of keepsValues ? rest : values.properties) {
+    const key = getPropertyName(prop);
+    if (!key || !t.isObjectProperty(prop) || prop.computed || !t.isExpression(prop.value)) {
+      return null;
+    }
+    entries.push([key, prop.value]);
+  }
+
+  const defaults = resolveObjectLiteral(scope, api.defaultValues);
+  const complete = keepsValues || (
+    defaults !== null &&
+    defaults.properties.every((prop) => entries.some(([key]) => key === getPropertyName(prop)))
+  );
+
+  return complete && entries.length > 0 ? entries : null;
+}
+
+/**
+ * `getValues()` / `watch()` without a field name
+ */
+function isCurrentValues(node: t.Node): boolean {
+  if (!t.isCallExpression(node) || node.arguments.length > 0) {
+    return false;
+  }
+
+  const callee = t.isMemberExpression(node.callee) ? node.callee.property : node.callee;
+  return t.isIdentifier(callee) && ['getValues', 'watch'].includes(callee.name);
+}
+
+/**
+ * Whether the value a call returns (or resolves to) is used: anything but
+ * a plain statement, an awaited statement or the body of an arrow function
+ */
+function isResultUsed(call: NodePath<t.CallExpression>): boolean {
+  const parent = call.parentPath;
+  const container = parent.isAwaitExpression() ? parent.parentPath! : parent;
+  const node = parent.isAwaitExpression() ? parent.node : call.node;
+
+  return !(
+    container.isExpressionStatement() ||
+    (container.isArrowFunctionExpression() && container.node.body === node) ||
+    container.isUnaryExpression({ operator: 'void' })
+  );
+}
+
+/**
+ * Flatten a Formik errors object literal into `[path, message]` entries
+ * (`{ address: { city: 'x' } }` → `['address.city', 'x']`). Returns null
+ * for spreads, computed keys or arrays.
+ */
+function flattenErrors(errors: t.ObjectExpression, prefix = ''): Array<[string, t.Expression]> | null {
+  const entries: Array<[string, t.Expression]> = [];
+
+  for (const prop of errors.properties) {
+    const key = getPropertyName(prop);
+    if (!key || !t.isObjectProperty(prop) || prop.computed || !t.isExpression(prop.value) || t.isArrayExpression(prop.value)) {
+      return null;
+    }
+
+    if (t.isObjectExpression(prop.value)) {
+      const nested = flattenErrors(prop.value, `${prefix}${key}.`);
+      if (!nested) {
+        return null;
+      }
+      entries.push(...nested);
+    } else {
+      entries.push([`${prefix}${key}`, prop.value]);
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Replace a call with one or more calls, as separate statements when the
+ * call was one
+ */
+function replaceCall(call: NodePath<t.CallExpression>, calls: t.Expression[]) {
+  const parent = call.parentPath;
+
+  if (calls.length === 1) {
+    call.replaceWith(calls[0]);
+  } else if (parent.isExpressionStatement()) {
+    parent.replaceWithMultiple(calls.map((expression) => t.expressionStatement(expression)));
+  } else if (parent.isArrowFunctionExpression() && parent.node.body === call.node) {
+    parent.node.body = t.blockStatement(calls.map((expression) => t.expressionStatement(expression)));
+  } else {
+    call.replaceWith(t.sequenceExpression(calls));
+  }
+}
+
+/**
+ * Rewrite `errors.a.b` → `errors.a?.b?.message` (RHF errors are objects)
+ */
+function replaceErrorLookup(path: NodePath<t.Expression>, api: FormApi) {
+  let leaf: NodePath<t.Expression> = path;
+  const segments: PathSegment[] = [];
+
+  while (true) {
+    const parent = leaf.parentPath!;
+    if (!(parent.isMemberExpression() || parent.isOptionalMemberExpression()) || parent.node.object !== leaf.node) {
+      break;
+    }
+
+    // Stop before method calls on the message (errors.email.trim())
+    const grandParent = parent.parentPath!;
+    if (grandParent.isCallExpression() && grandParent.node.callee === parent.node && segments.length > 0) {
+      break;
+    }
+
+    segments.push({ property: parent.node.property as t.Expression, computed: parent.node.computed });
+    leaf = parent as NodePath<t.Expression>;
+  }
+
+  leaf.replaceWith(buildErrorLookup(api.formState('errors'), segments));
+}
+
+/**
+ * Build an optional-chained error lookup: `errors.items?.[0]?.name?.message`
+ */
+export function buildErrorLookup(
+  errors: t.Expression,
+  segments: PathSegment[]
+): t.Expression {
+  if (segments.length === 0) {
+    return errors;
+  }
+
+  let expression: t.Expression = t.memberExpression(errors, segments[0].property, segments[0].computed);
+  for (const segment of segments.slice(1)) {
+    expression = t.optionalMemberExpression(expression, segment.property, segment.computed, true);
+  }
+
+  return t.optionalMemberExpression(expression, t.identifier('message'), false, true);
+}
+
+/**
+ * An input whose onChange/onBlur are wired to Formik handlers
+ */
+interface InputRewire {
+  element: NodePath<t.JSXOpeningElement>;
+  fieldName: string;
+  attributes: Set<string>;
+}
+
+/**
+ * Replace Formik handler attributes with `{...register(name)}`
+ */
+function applyInputRewire(rewire: InputRewire, api: FormApi) {
+  const element = rewire.element.node;
+  const removed = new Set([...rewire.attributes, 'name']);
+  const index = element.attributes.findIndex(
+    (attr) => t.isJSXAttribute(attr) && t.isJSXIdentifier(attr.name) && removed.has(attr.name.name)
+  );
+
+  element.attributes = element.attributes.filter(
+    (attr) => !(t.isJSXAttribute(attr) && t.isJSXIdentifier(attr.name) && removed.has(attr.name.name))
+  );
+  element.attributes.splice(
+    index === -1 ? element.attributes.length : index,
+    0,
+    t.jsxSpreadAttribute(api.call('register', [t.stringLiteral(rewire.fieldName)]))
+  );
+}
+
+/**
+ * Find the JSX element whose onChange/onBlur attribute holds `path`
+ */
+function getWiredElement(path: NodePath): NodePath<t.JSXOpeningElement> | null {
+  const container = path.parentPath;
+  const attr = container?.parentPath;
+
+  if (
+    !container?.isJSXExpressionContainer() ||
+    !attr?.isJSXAttribute() ||
+    !t.isJSXIdentifier(attr.node.name) ||
+    !['onChange', 'onBlur'].includes(attr.node.name.name)
+  ) {
+    return null;
+  }
+
+  return attr.parentPath as NodePath<t.JSXOpeningElement>;
+}
+
+/**
+ * Name of a non-computed (or string-literal computed) member access
+ */
+export function getMemberName(node: t.MemberExpression): string | null {
+  if (!node.computed && t.isIdentifier(node.property)) {
+    return node.property.name;
+  }
+  if (node.computed && t.isStringLiteral(node.property)) {
+    return node.property.value;
+  }
+  return null;
+}
+
+/**
+ * Whether a path is written to (assigned, incremented or deleted)
+ */
+export function isAssignmentTarget(path: NodePath): boolean {
+  const parent = path.parentPath!;
+  return (
+    (parent.isAssignmentExpression() && parent.node.left === path.node) ||
+    parent.isUpdateExpression() ||
+    (parent.isUnaryExpression() && parent.node.operator === 'delete')
+  );
+}
+
+function isWithin(path: NodePath, node: t.Node): boolean {
+  return !!path.findParent((parent) => parent.node === node) || path.node === node;
+}
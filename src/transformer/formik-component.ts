@@ -0,0 +1,273 @@
+import type { NodePath } from '@babel/traverse';
+import * as t from '@babel/types';
+import { FormApi } from './form-api';
+import { BOOLEAN_OPTIONS, buildUseFormOptions, FormikConfig, getUseFormOptionsBlocker, readFlag } from './form-options';
+import { planBagRewrites } from './formik-bag';
+import { planSubmitHelperRewrites, typeSubmitValues } from './submit-handler';
+import {
+  findEnclosingComponent,
+  findHookInsertionPoint,
+  formatLocation,
+  getJsxAttributeExpression,
+  getRenderedExpression,
+  getRenderFunction,
+  insertHoisted,
+  rendersCustomComponents,
+  replaceJsxElement,
+  resolveFunction,
+  toJsxChild,
+  uniqueName,
+} from './utils';
+
+/**
+ * `<Formik>` props the component conversion understands
+ */
+const SUPPORTED_FORMIK_PROPS = [
+  'initialValues',
+  'onSubmit',
+  'validationSchema',
+  'validate',
+  'validateOnChange',
+  'validateOnBlur',
+  'enableReinitialize',
+];
+
+/**
+ * What the caller needs to know about a converted `<Formik>`
+ */
+export interface FormikComponentConversion {
+  component: NodePath<t.Function>;
+  api: FormApi;
+  root: t.Node | null;
+  imports: string[];
+}
+
+/**
+ * Check whether a `<Formik>` element can be converted.
+ * Returns the reason it can't, or null when it's safe.
+ */
+export function getFormikComponentBlocker(path: NodePath<t.JSXElement>): string | null {
+  const opening = path.node.openingElement;
+  const location = formatLocation(path.node);
+
+  for (const attr of opening.attributes) {
+    if (t.isJSXSpreadAttribute(attr)) {
+      return `Spread props on <Formik> (${location})`;
+    }
+
+    const name = t.isJSXIdentifier(attr.name) ? attr.name.name : '';
+    if (name === 'component') {
+      return `<Formik component> needs manual review (${location})`;
+    }
+    if (name !== 'render' && !SUPPORTED_FORMIK_PROPS.includes(name)) {
+      return `Unsupported <Formik> prop \`${name}\` (${location})`;
+    }
+    if (name !== 'render' && !getJsxAttributeExpression(attr) && !(BOOLEAN_OPTIONS.includes(name) && !attr.value)) {
+      return `<Formik> prop \`${name}\` has no value (${location})`;
+    }
+  }
+
+  const optionsBlocker = getUseFormOptionsBlocker(getFormikProps(opening), location);
+  if (optionsBlocker) {
+    return optionsBlocker;
+  }
+
+  const renderFn = getRenderFunction(path);
+  if (typeof renderFn === 'string') {
+    return renderFn;
+  }
+
+  if (renderFn) {
+    if (renderFn.node.params.length > 1) {
+      return `<Formik> render function takes more than one argument (${location})`;
+    }
+    if (!getRenderedExpression(renderFn.node)) {
+      return `<Formik> render function has statements besides return (${location})`;
+    }
+  }
+
+  const onSubmit = getJsxAttributeExpression(
+    opening.attributes.find(
+      (attr): attr is t.JSXAttribute => t.isJSXAttribute(attr) && attr.name.name === 'onSubmit'
+    )
+  );
+
+  const component = findEnclosingComponent(path);
+  if (!component) {
+    return `<Formik> is not rendered directly by a function component (${location})`;
+  }
+
+  const api = FormApi.object('form', component.scope);
+  api.onSubmit = onSubmit;
+
+  // The Formik helpers passed to onSubmit must map onto the form too
+  const helpers = planSubmitHelperRewrites(resolveFunction(getPropPath(path, 'onSubmit')), api, component.node);
+  if (helpers.reason) {
+    return helpers.reason;
+  }
+
+  // Every usage of the render-prop bag must have an RHF equivalent
+  if (renderFn && renderFn.node.params.length === 1) {
+    const plan = planBagRewrites(renderFn.get('params.0') as NodePath<t.LVal>, api, renderFn.node);
+    if (plan.reason) {
+      return plan.reason;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Convert `<Formik initialValues onSubmit>{(props) => ...}</Formik>` into a
+ * `useForm()` call hoisted into the enclosing component. Returns the reason
+ * when the element can't be converted. `typescript` files get types for
+ * what loses them (the submit handler).
+ */
+export function convertFormikComponent(
+  path: NodePath<t.JSXElement>,
+  takenNames: (component: t.Node) => Set<string>,
+  typescript = false
+): FormikComponentConversion | string {
+  const blocker = getFormikComponentBlocker(path);
+  if (blocker) {
+    return blocker;
+  }
+
+  const location = formatLocation(path.node);
+  const component = findEnclosingComponent(path)!;
+
+  const statement = findHookInsertionPoint(component, path);
+  if (typeof statement === 'string') {
+    return statement;
+  }
+
+  const props = getFormikProps(path.node.openingElement);
+  const imports = ['useForm'];
+  const formNames = takenNames(component.node);
+  const formName = uniqueName(component.scope, 'form', formNames);
+  const api = FormApi.object(formName, component.scope, formNames);
+  api.validateOnChange = readFlag(props, 'validateOnChange', true);
+  api.validateOnBlur = readFlag(props, 'validateOnBlur', true);
+
+  // Plan rewrites of the render-prop bag before touching anything
+  const renderFn = getRenderFunction(path) as NodePath<t.ArrowFunctionExpression | t.FunctionExpression> | null;
+  let rewrites: Array<() => void> = [];
+
+  if (props.onSubmit) {
+    api.onSubmit = t.isIdentifier(props.onSubmit)
+      ? props.onSubmit
+      : t.identifier(uniqueName(component.scope, 'onSubmit', formNames));
+  }
+
+  // (values, { setSubmitting, resetForm }) => ... → (values) => ...
+  const helpers = planSubmitHelperRewrites(resolveFunction(getPropPath(path, 'onSubmit')), api, component.node);
+  if (helpers.reason) {
+    return helpers.reason;
+  }
+  rewrites = helpers.rewrites!;
+
+  if (renderFn && renderFn.node.params.length === 1) {
+    const plan = planBagRewrites(renderFn.get('params.0') as NodePath<t.LVal>, api, renderFn.node);
+    if (plan.reason) {
+      return plan.reason;
+    }
+    rewrites.push(...plan.rewrites!);
+  }
+
+  // <Formik> typed the handler's values, a const of its own doesn't
+  const hoisted: t.Statement[] = [];
+  const initialValues = props.initialValues ?? null;
+  const typeArgument = path.node.openingElement.typeParameters?.params[0] ?? null;
+  if (props.onSubmit && !t.isIdentifier(props.onSubmit) && (typescript || typeArgument)) {
+    hoisted.push(...typeSubmitValues(props.onSubmit, props, typeArgument, component.scope, formNames));
+  }
+
+  // const form = useForm({ defaultValues, resolver })
+  const { properties: options, imports: optionImports } = buildUseFormOptions(props);
+  imports.push(...optionImports);
+  api.resolver = Boolean(props.validationSchema || props.validate);
+  api.defaultValues = initialValues;
+
+  // <Formik<Values>> → useForm<Values>()
+  const useForm = t.callExpression(t.identifier('useForm'), options.length > 0 ? [t.objectExpression(options)] : []);
+  useForm.typeParameters = path.node.openingElement.typeParameters ?? null;
+
+  hoisted.push(t.variableDeclaration('const', [t.variableDeclarator(t.identifier(formName), useForm)]));
+  if (props.onSubmit && !t.isIdentifier(props.onSubmit)) {
+    hoisted.push(
+      t.variableDeclaration('const', [
+        t.variableDeclarator(t.cloneNode(api.onSubmit as t.Identifier), props.onSubmit),
+      ])
+    );
+  }
+
+  rewrites.forEach((rewrite) => rewrite());
+
+  // Replace <Formik> with what it rendered
+  let rendered: t.Expression | null = renderFn
+    ? getRenderedExpression(renderFn.node)
+    : childrenToExpression(path.node.children);
+
+  // Unless the render function already shares the form (<FormikProvider>)
+  if (rendered && rendersCustomComponents(rendered) && !api.provided) {
+    rendered = t.jsxElement(
+      t.jsxOpeningElement(t.jsxIdentifier('FormProvider'), [
+        t.jsxSpreadAttribute(t.identifier(formName)),
+      ]),
+      t.jsxClosingElement(t.jsxIdentifier('FormProvider')),
+      [toJsxChild(rendered)]
+    );
+    api.provided = true;
+  }
+  if (api.provided) {
+    imports.push('FormProvider');
+  }
+
+  replaceJsxElement(path, rendered);
+  insertHoisted(component, statement, hoisted);
+
+  return { component, api, root: rendered, imports };
+}
+
+/**
+ * Read the supported `<Formik>` props as expressions
+ */
+function getFormikProps(opening: t.JSXOpeningElement): FormikConfig {
+  const props: FormikConfig = {};
+
+  opening.attributes.forEach((attr) => {
+    if (t.isJSXAttribute(attr) && t.isJSXIdentifier(attr.name)) {
+      // <Formik enableReinitialize> is shorthand for true
+      props[attr.name.name] = attr.value ? getJsxAttributeExpression(attr) ?? undefined : t.booleanLiteral(true);
+    }
+  });
+
+  return props;
+}
+
+/**
+ * Path to the expression a `<Formik>` prop carries
+ */
+function getPropPath(path: NodePath<t.JSXElement>, name: string): NodePath | null {
+  const index = path.node.openingElement.attributes.findIndex(
+    (attr) => t.isJSXAttribute(attr) && attr.name.name === name
+  );
+
+  return index === -1 ? null : (path.get(`openingElement.attributes.${index}.value.expression`) as NodePath);
+}
+
+/**
+ * Turn plain JSX children into a single expression (element or fragment)
+ */
+function childrenToExpression(children: t.JSXElement['children']): t.Expression | null {
+  const meaningful = children.filter((child) => !(t.isJSXText(child) && child.value.trim() === ''));
+
+  if (meaningful.length === 0) {
+    return null;
+  }
+  if (meaningful.length === 1 && (t.isJSXElement(meaningful[0]) || t.isJSXFragment(meaningful[0]))) {
+    return meaningful[0];
+  }
+
+  return t.jsxFragment(t.jsxOpeningFragment(), t.jsxClosingFragment(), children);
+}
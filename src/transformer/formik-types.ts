@@ -0,0 +1,266 @@
+import type { NodePath } from '@babel/traverse';
+import * as t from '@babel/types';
+import { getMemberName } from './formik-bag';
+import { formatLocation, getPropertyName } from './utils';
+import { VALIDATE_RESOLVER } from './validate-resolver';
+
+/**
+ * Formik types with a React Hook Form equivalent over the same values type
+ */
+const TYPE_MAPPINGS: Record<string, string> = {
+  FormikProps: 'UseFormReturn',
+  FormikContextType: 'UseFormReturn',
+  FormikErrors: 'FieldErrors',
+  FormikValues: 'FieldValues',
+};
+
+/**
+ * Members of `UseFormReturn`, which a binding typed `FormikProps` may use
+ * once it's typed `UseFormReturn`
+ */
+const FORM_RETURN_MEMBERS = [
+  'register',
+  'control',
+  'handleSubmit',
+  'watch',
+  'getValues',
+  'getFieldState',
+  'setValue',
+  'setError',
+  'clearErrors',
+  'reset',
+  'resetField',
+  'trigger',
+  'unregister',
+  'setFocus',
+  'formState',
+];
+
+/**
+ * What the caller needs to know about a converted Formik type reference
+ */
+export interface FormikTypeConversion {
+  /** React Hook Form types the converted reference uses (none when it was kept) */
+  imports: string[];
+  /** Whether the Formik type was imported with `import type` */
+  typeOnly: boolean;
+  warnings: string[];
+}
+
+/**
+ * Name a type reference imports from formik (`FormikProps` for
+ * `import { FormikProps as Props }`), or null when it isn't a Formik type
+ */
+export function getFormikTypeName(path: NodePath<t.TSTypeReference>): string | null {
+  const typeName = path.node.typeName;
+  if (!t.isIdentifier(typeName)) {
+    return null;
+  }
+
+  const specifier = path.scope.getBinding(typeName.name)?.path;
+  if (!specifier?.isImportSpecifier() || !t.isImportDeclaration(specifier.parent) || specifier.parent.source.value !== 'formik') {
+    return null;
+  }
+
+  const imported = specifier.node.imported;
+  return t.isIdentifier(imported) ? imported.name : imported.value;
+}
+
+/**
+ * Rewrite a reference to a Formik type onto its React Hook Form equivalent,
+ * keeping the values type: `FormikProps<Values>` → `UseFormReturn<Values>`.
+ * Returns the reason when the type has no equivalent. `FormikErrors` built
+ * by a validate function the resolver adapter wraps stays as it is (no
+ * imports).
+ */
+export function convertFormikType(path: NodePath<t.TSTypeReference>): FormikTypeConversion | string {
+  const name = getFormikTypeName(path)!;
+  const location = formatLocation(path.node);
+  const specifier = path.scope.getBinding((path.node.typeName as t.Identifier).name)!.path;
+  const typeOnly =
+    (specifier.node as t.ImportSpecifier).importKind === 'type' ||
+    (specifier.parent as t.ImportDeclaration).importKind === 'type';
+  const params = path.node.typeParameters?.params ?? [];
+
+  // A Formik validate function passed to the resolver adapter keeps building Formik errors
+  if (name === 'FormikErrors' && isResolverValidate(path)) {
+    return { imports: [], typeOnly, warnings: [] };
+  }
+
+  if (name === 'FormikProps' || name === 'FormikContextType') {
+    const member = getUnmappedMember(path);
+    if (member) {
+      return `\`${name}\` types code reading \`${member}\`, which \`UseFormReturn\` doesn't have (${location})`;
+    }
+  }
+
+  if (TYPE_MAPPINGS[name]) {
+    path.node.typeName = t.identifier(TYPE_MAPPINGS[name]);
+    return { imports: [TYPE_MAPPINGS[name]], typeOnly, warnings: [] };
+  }
+
+  // (values: Values, helpers: FormikHelpers<Values>) => void → SubmitHandler<Values>
+  if (name === 'FormikHelpers') {
+    const handler = getSubmitHandlerType(path);
+    if (!handler) {
+      return `\`FormikHelpers\` is used outside an onSubmit handler type; RHF passes no helpers (${location})`;
+    }
+
+    // The values type, from FormikHelpers<Values> or the values parameter
+    const [values] = handler.node.parameters;
+    const valuesType = params[0] ?? (t.isIdentifier(values) && t.isTSTypeAnnotation(values.typeAnnotation)
+      ? values.typeAnnotation.typeAnnotation
+      : null);
+
+    handler.replaceWith(
+      t.tsTypeReference(
+        t.identifier('SubmitHandler'),
+        valuesType ? t.tsTypeParameterInstantiation([valuesType]) : null
+      )
+    );
+    return { imports: ['SubmitHandler'], typeOnly, warnings: [] };
+  }
+
+  // FieldProps<Value, Values> → UseControllerProps<Values>
+  if (name === 'FieldProps') {
+    path.replaceWith(
+      t.tsTypeReference(
+        t.identifier('UseControllerProps'),
+        params.length > 1 ? t.tsTypeParameterInstantiation([params[1]]) : null
+      )
+    );
+    return {
+      imports: ['UseControllerProps'],
+      typeOnly,
+      warnings: [
+        `\`FieldProps\` became \`UseControllerProps\`: the component gets a field name and control instead of field/form/meta - read them with useController(props) (${location})`,
+      ],
+    };
+  }
+
+  return `Formik type \`${name}\` has no automatic React Hook Form mapping (${location})`;
+}
+
+/**
+ * The function type a `FormikHelpers` reference types the second parameter of
+ */
+function getSubmitHandlerType(path: NodePath<t.TSTypeReference>): NodePath<t.TSFunctionType> | null {
+  const annotation = path.parentPath;
+  const param = annotation.parentPath;
+  const fn = param?.parentPath;
+
+  if (
+    annotation.isTSTypeAnnotation() &&
+    param?.isIdentifier() &&
+    fn?.isTSFunctionType() &&
+    fn.node.parameters.length === 2 &&
+    fn.node.parameters[1] === param.node
+  ) {
+    return fn;
+  }
+
+  return null;
+}
+
+/**
+ * Whether a type reference is in a function passed to the Formik validate
+ * resolver adapter (`formikValidateResolver(validate)`), in its signature or
+ * its body
+ */
+function isResolverValidate(path: NodePath<t.TSTypeReference>): boolean {
+  const fn = path.getFunctionParent();
+  if (!fn) {
+    return false;
+  }
+
+  const isAdapterCall = (call: NodePath | null) =>
+    call?.isCallExpression() === true && t.isIdentifier(call.node.callee, { name: VALIDATE_RESOLVER });
+  if (isAdapterCall(fn.parentPath)) {
+    return true;
+  }
+
+  // validate={validate}, with `function validate` or `const validate = () => ...`
+  const id = fn.isFunctionDeclaration()
+    ? fn.node.id
+    : fn.parentPath.isVariableDeclarator()
+      ? fn.parentPath.node.id
+      : null;
+  const binding = t.isIdentifier(id) ? fn.parentPath.scope.getBinding(id.name) : undefined;
+  if (!binding) {
+    return false;
+  }
+
+  let passed = false;
+  path.scope.getProgramParent().path.traverse({
+    Identifier(ref) {
+      if (
+        ref.node.name === binding.identifier.name &&
+        isAdapterCall(ref.parentPath) &&
+        ref.listKey === 'arguments' &&
+        ref.scope.getBinding(ref.node.name) === binding
+      ) {
+        passed = true;
+        ref.stop();
+      }
+    },
+  });
+  return passed;
+}
+
+/**
+ * First member the binding a `FormikProps` reference annotates uses that
+ * `UseFormReturn` doesn't have, or null. References elsewhere (type
+ * aliases, generics) have no usages to check.
+ */
+function getUnmappedMember(path: NodePath<t.TSTypeReference>): string | null {
+  const annotation = path.parentPath;
+  const target = annotation.parentPath;
+  if (!annotation.isTSTypeAnnotation() || !target) {
+    return null;
+  }
+
+  // ({ values, handleSubmit }: FormikProps<Values>)
+  if (target.isObjectPattern()) {
+    const names = target.node.properties
+      .filter((prop): prop is t.ObjectProperty => t.isObjectProperty(prop))
+      .map((prop) => getPropertyName(prop) ?? '[]');
+    return names.find((member) => !FORM_RETURN_MEMBERS.includes(member) || member === 'handleSubmit') ?? null;
+  }
+
+  if (!target.isIdentifier()) {
+    return null;
+  }
+  const binding = target.scope.getBinding(target.node.name);
+  if (!binding || binding.identifier !== target.node) {
+    return null;
+  }
+
+  let unmapped: string | null = null;
+  binding.scope.path.traverse({
+    Identifier(ref) {
+      if (
+        ref.node.name !== target.node.name ||
+        !ref.isReferencedIdentifier() ||
+        ref.scope.getBinding(ref.node.name) !== binding
+      ) {
+        return;
+      }
+
+      // Passed on as a whole: whatever receives it is typed separately
+      const member = ref.parentPath.isMemberExpression({ object: ref.node }) ? ref.parentPath : null;
+      if (!member) {
+        return;
+      }
+
+      // Formik's handleSubmit is the event handler, RHF's takes the submit handler
+      const name = getMemberName(member.node) ?? '[]';
+      const call = member.parentPath;
+      const isSubmitCall = call.isCallExpression({ callee: member.node }) && call.node.arguments.length > 0;
+      if (!FORM_RETURN_MEMBERS.includes(name) || (name === 'handleSubmit' && !isSubmitCall)) {
+        unmapped = name;
+        ref.stop();
+      }
+    },
+  });
+  return unmapped;
+}
@@ -0,0 +1,187 @@
+import type { NodePath } from '@babel/traverse';
+import * as t from '@babel/types';
+
+/**
+ * Collects the named imports converted code needs and reconciles them with
+ * the file's import declarations: merges into existing imports of the same
+ * module, adds the missing ones next to the Formik import, and drops
+ * specifiers of cleaned-up modules that are no longer referenced.
+ */
+export class ImportManager {
+  private readonly required = new Map<string, Set<string>>();
+
+  /** Names only used as types, imported with `type` */
+  private readonly typeOnly = new Set<string>();
+
+  /**
+   * Request `import { name } from 'source'` (`import { type name }` for a
+   * type the file imported with `import type` before)
+   */
+  add(source: string, name: string, typeOnly = false) {
+    if (!this.required.has(source)) {
+      this.required.set(source, new Set());
+    }
+    if (typeOnly && !this.required.get(source)!.has(name)) {
+      this.typeOnly.add(name);
+    } else if (!typeOnly) {
+      this.typeOnly.delete(name);
+    }
+    this.required.get(source)!.add(name);
+  }
+
+  /**
+   * Update the program's imports. Specifiers from `cleanupSources` that
+   * nothing references any more are removed, along with declarations left
+   * empty. Returns whether any import changed, and the names that couldn't
+   * be imported because another binding already uses them.
+   */
+  apply(program: NodePath<t.Program>, cleanupSources: string[]): { changed: boolean; clashes: string[] } {
+    program.scope.crawl();
+
+    const declarations = program
+      .get('body')
+      .filter((statement): statement is NodePath<t.ImportDeclaration> => statement.isImportDeclaration());
+    const anchor =
+      declarations.find((declaration) => cleanupSources.includes(declaration.node.source.value)) ??
+      declarations[declarations.length - 1];
+    const quote = detectQuote(anchor?.node.source);
+    const emptied: Array<NodePath<t.ImportDeclaration>> = [];
+    const removed = new Set<string>();
+    const clashes: string[] = [];
+    const requiredNames = new Set([...this.required.values()].flatMap((names) => [...names]));
+
+    // Drop specifiers the converted code no longer uses, or now imports
+    // from elsewhere (<ErrorMessage> from @hookform/error-message)
+    for (const declaration of declarations) {
+      if (!cleanupSources.includes(declaration.node.source.value) || declaration.node.specifiers.length === 0) {
+        continue;
+      }
+
+      declaration.node.specifiers = declaration.node.specifiers.filter((spec) => {
+        const keep = !requiredNames.has(spec.local.name) && isReferenced(program, spec.local.name);
+        if (!keep) {
+          removed.add(spec.local.name);
+        }
+        return keep;
+      });
+      if (declaration.node.specifiers.length === 0) {
+        emptied.push(declaration);
+      }
+    }
+
+    // Merge into existing value imports of the same module, or add new ones
+    const added: t.ImportDeclaration[] = [];
+    let merged = false;
+
+    for (const [source, names] of this.required) {
+      const existing = declarations.find(
+        (declaration) =>
+          declaration.node.source.value === source &&
+          declaration.node.importKind !== 'type' &&
+          !emptied.includes(declaration) &&
+          !declaration.node.specifiers.some((spec) => t.isImportNamespaceSpecifier(spec))
+      );
+      const specifiers: t.ImportSpecifier[] = [];
+
+      for (const name of names) {
+        if (existing && importsName(existing.node, name)) {
+          continue;
+        }
+        if (program.scope.hasBinding(name) && !removed.has(name) && !importsNameFrom(declarations, source, name)) {
+          clashes.push(name);
+          continue;
+        }
+        const specifier = t.importSpecifier(t.identifier(name), t.identifier(name));
+        if (this.typeOnly.has(name)) {
+          specifier.importKind = 'type';
+        }
+        specifiers.push(specifier);
+      }
+
+      if (specifiers.length === 0) {
+        continue;
+      }
+      if (existing) {
+        existing.node.specifiers.push(...specifiers);
+        merged = true;
+      } else if (specifiers.every((specifier) => specifier.importKind === 'type')) {
+        // import type { UseFormReturn } from 'react-hook-form'
+        specifiers.forEach((specifier) => {
+          specifier.importKind = null;
+        });
+        const declaration = t.importDeclaration(specifiers, quoted(source, quote));
+        declaration.importKind = 'type';
+        added.push(declaration);
+      } else {
+        added.push(t.importDeclaration(specifiers, quoted(source, quote)));
+      }
+    }
+
+    if (added.length > 0) {
+      if (anchor) {
+        anchor.insertAfter(added);
+      } else {
+        program.unshiftContainer('body', added);
+      }
+    }
+
+    emptied.forEach((declaration) => declaration.remove());
+
+    return { changed: removed.size > 0 || added.length > 0 || merged, clashes };
+  }
+}
+
+/**
+ * Check whether a local name is still used, as a value or as a type
+ * (Babel's scope tracking doesn't count type references)
+ */
+function isReferenced(program: NodePath<t.Program>, name: string): boolean {
+  if (program.scope.getBinding(name)?.referenced) {
+    return true;
+  }
+
+  let found = false;
+  t.traverseFast(program.node, (node) => {
+    if (found) {
+      return;
+    }
+    const typeName =
+      t.isTSTypeReference(node) ? node.typeName
+        : t.isTSQualifiedName(node) ? node.left
+          : t.isTSTypeQuery(node) ? node.exprName
+            : t.isTSExpressionWithTypeArguments(node) ? node.expression
+              : null;
+    found = t.isIdentifier(typeName, { name });
+  });
+
+  return found;
+}
+
+function importsName(declaration: t.ImportDeclaration, name: string): boolean {
+  return declaration.specifiers.some(
+    (spec) =>
+      t.isImportSpecifier(spec) &&
+      spec.local.name === name &&
+      (t.isIdentifier(spec.imported) ? spec.imported.name : spec.imported.value) === name
+  );
+}
+
+function importsNameFrom(declarations: Array<NodePath<t.ImportDeclaration>>, source: string, name: string): boolean {
+  return declarations.some(
+    (declaration) => declaration.node.source.value === source && importsName(declaration.node, name)
+  );
+}
+
+/**
+ * Quote character the file's imports use
+ */
+function detectQuote(source: t.StringLiteral | undefined): string {
+  const raw = (source?.extra?.raw as string | undefined) ?? '';
+  return raw.startsWith("'") ? "'" : '"';
+}
+
+function quoted(value: string, quote: string): t.StringLiteral {
+  const literal = t.stringLiteral(value);
+  literal.extra = { raw: `${quote}${value}${quote}`, rawValue: value };
+  return literal;
+}
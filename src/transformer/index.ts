@@ -1,8 +1,31 @@
-import { parse } from '@babel/parser';
-import traverse from '@babel/traverse';
-import generate from '@babel/generator';
+import traverse, { NodePath } from '@babel/traverse';
 import * as t from '@babel/types';
 import * as fs from 'fs';
+import * as path from 'path';
+import type { FormikPattern } from '../analyzer';
+import { FormikMigratePlugin, getRules } from '../plugins';
+import { ErrorMessageStyle } from './error-message';
+import { FormApi } from './form-api';
+import { getFormikTypeName } from './formik-types';
+import { ImportManager } from './imports';
+import { parseSource, printSource } from './printer';
+import { MigrationRule, RuleContext } from './rules';
+import { getTarget, MigrationTarget, TargetName } from './targets';
+import { getHelpersImportPath, VALIDATE_RESOLVER } from './validate-resolver';
+import { getWrappedComponent } from './with-formik';
+import { addTodoComment, findEnclosingComponent, formatLocation } from './utils';
+
+type PatternType = FormikPattern['type'];
+
+/**
+ * A Formik pattern the transformer converted or left as-is
+ */
+export interface PatternReport {
+  type: PatternType;
+  location: FormikPattern['location'];
+  /** Why it was left as-is (same text as the analyzer's `FormikPattern.reason`) */
+  reason?: string;
+}
 
 /**
  * Conversion result
@@ -13,14 +36,68 @@ export interface ConversionResult {
   error?: string;
   warnings: string[];
   changes: string[];
+  /** Shared helpers the converted code imports from the helpers module */
+  helpers?: string[];
+  /** Patterns converted to the target */
+  converted: PatternReport[];
+  /** Patterns left for manual review */
+  skipped: PatternReport[];
+}
+
+/**
+ * Transformer options
+ */
+export interface TransformOptions {
+  /** How <ErrorMessage> is converted (default: inline JSX over formState.errors) */
+  errorMessage?: ErrorMessageStyle;
+  /** Path (without extension) of the shared helpers module (default: ./formikValidateResolver) */
+  helpersModule?: string;
+  /** Reprint only the code that changed, keeping the rest as written (default: true) */
+  preserveFormatting?: boolean;
+  /**
+   * Convert the safe patterns of a file even when others need manual
+   * review, marking those with `// TODO(formik-migrate): <reason>` comments
+   * (default: false - such files are left untouched)
+   */
+  partial?: boolean;
+  /**
+   * Patterns to leave as Formik, by their location in the file (e.g. ones
+   * rejected during review). They're reported as skipped, without a TODO
+   * comment, and don't keep the rest of the file from being converted.
+   */
+  exclude?: Array<{ line: number; column: number }>;
+  /** Plugins whose rules run after the built-in ones, in order */
+  plugins?: FormikMigratePlugin[];
+  /** Form library to convert to (default: react-hook-form) */
+  target?: TargetName;
 }
 
+/**
+ * Reason reported for patterns left out through `TransformOptions.exclude`
+ */
+export const EXCLUDED_REASON = 'Left as Formik on request';
+
 /**
  * Safe transformer - only converts simple, well-understood patterns
  */
 export class SafeTransformer {
   private warnings: string[] = [];
   private changes: string[] = [];
+  private imports = new ImportManager();
+  private helpers = new Set<string>();
+  private filePath = '';
+  private componentNames = new WeakMap<t.Node, Set<string>>();
+  private formApis = new WeakMap<t.Node, FormApi>();
+  private unconvertedForms: t.Node[] = [];
+  private converted: PatternReport[] = [];
+  private skipped: PatternReport[] = [];
+  private readonly rules: MigrationRule[];
+  private readonly target: MigrationTarget;
+
+  constructor(private readonly options: TransformOptions = {}) {
+    this.target = getTarget(options.target);
+    this.rules = getRules(options.plugins, options.target).filter((rule) => rule.transform);
+  }
 
   /**
    * Transform a file (only if safe to do so)
@@ -28,242 +105,507 @@ export class SafeTransformer {
   transformFile(filePath: string): ConversionResult {
     this.warnings = [];
     this.changes = [];
+    this.imports = new ImportManager();
+    this.helpers = new Set();
+    this.filePath = filePath;
+    this.componentNames = new WeakMap();
+    this.formApis = new WeakMap();
+    this.unconvertedForms = [];
+    this.converted = [];
+    this.skipped = [];
 
     const code = fs.readFileSync(filePath, 'utf-8');
 
     try {
-      const ast = parse(code, {
-        sourceType: 'module',
-        plugins: ['jsx', 'typescript'],
-      });
+      const ast = parseSource(code, this.options.preserveFormatting !== false);
 
-      let hasUnsafePatterns = false;
+      const forms: Array<{ path: NodePath; type: PatternType }> = [];
+      const unsafeForms: Array<{ path: NodePath; type: PatternType; reason: string }> = [];
+      const unsafeFields: Array<{ path: NodePath; type: PatternType; reason: string }> = [];
 
       // First pass: check for unsafe patterns
       traverse(ast, {
-        CallExpression: (path) => {
-          if (
-            t.isIdentifier(path.node.callee) &&
-            path.node.callee.name === 'useFormik'
-          ) {
-            if (!this.isSafeUseFormik(path)) {
-              hasUnsafePatterns = true;
-              this.warnings.push('Complex useFormik pattern detected - skipping auto-conversion');
-            }
+        'CallExpression|JSXElement': (path: NodePath) => {
+          // Patterns left as Formik on request don't hold the file back
+          if (this.isExcluded(path.node)) {
+            return;
+          }
+
+          const form = this.findRule(path, 'form');
+          const formReason = form?.getBlocker?.(path) ?? null;
+          if (form) {
+            forms.push({ path, type: form.type });
+          }
+          if (formReason) {
+            unsafeForms.push({ path, type: form!.type, reason: formReason });
+          }
+
+          const field = this.findRule(path, 'field');
+          const fieldReason = field?.getBlocker?.(path) ?? null;
+          if (fieldReason) {
+            unsafeFields.push({ path, type: field!.type, reason: fieldReason });
           }
         },
       });
 
-      if (hasUnsafePatterns) {
-        return {
-          success: false,
-          error: 'File contains complex patterns that need manual review',
-          warnings: this.warnings,
-          changes: [],
-        };
+      unsafeForms.forEach(({ path, type, reason }) => this.leaveToFormik(path, type, reason));
+
+      // Fields of forms left as Formik on request stay with them
+      const blockedFields = unsafeFields.filter(({ path }) => {
+        const form = this.findEnclosingForm(path, forms);
+        return !form || !this.isExcluded(form.path.node);
+      });
+
+      if ((unsafeForms.length > 0 || blockedFields.length > 0) && !this.options.partial) {
+        blockedFields.forEach(({ path, type, reason }) => this.skip(path, type, reason));
+        return this.failure(`File contains complex patterns that need manual review: ${this.warnings.join('; ')}`);
       }
 
-      // Second pass: transform safe patterns
+      // A form converted around a field left as Formik would leave it without Formik's context
+      blockedFields.forEach(({ path, type, reason }) => {
+        const form = this.findEnclosingForm(path, forms);
+        if (form && !this.unconvertedForms.includes(form.path.node)) {
+          this.leaveToFormik(form.path, form.type, `Form holds a ${type} that needs manual review: ${reason}`);
+        }
+      });
+
+      // Second pass: transform forms (hooks get hoisted into components)
+      let conversionError: string | null = null;
+      const context = this.createContext();
+
       traverse(ast, {
-        // Transform imports
-        ImportDeclaration: (path) => {
-          if (path.node.source.value === 'formik') {
-            this.transformImports(path);
-            this.changes.push('Updated imports from formik to react-hook-form');
+        'CallExpression|JSXElement': (path: NodePath) => {
+          const rule = this.findRule(path, 'form');
+          if (!rule || this.unconvertedForms.includes(path.node) || this.excludeForm(path, rule.type)) {
+            return;
+          }
+
+          const node = path.node;
+          const error = rule.transform!(path, context);
+          if (!error) {
+            this.recordConverted(rule.type, node);
+          } else if (this.options.partial) {
+            this.leaveToFormik(path, rule.type, error);
+          } else {
+            conversionError = error;
+            path.stop();
           }
         },
+      });
+
+      if (conversionError) {
+        return this.failure(conversionError);
+      }
+
+      // Third pass: transform fields against the form they belong to. Blockers
+      // are the ones found on the code as written, like the analyzer does.
+      const blockers = new Map(unsafeFields.map(({ path, reason }) => [path.node, reason]));
+      let fieldError: string | null = null;
+
+      traverse(ast, {
+        'CallExpression|JSXElement': (path: NodePath) => {
+          const rule = this.findRule(path, 'field');
+          if (!rule || this.belongsToUnconvertedForm(path, rule.type)) {
+            return;
+          }
+          if (this.exclude(path, rule.type)) {
+            this.keepFormikContext(path, rule.type);
+            return;
+          }
 
-        // Transform useFormik → useForm
-        CallExpression: (path) => {
-          if (
-            t.isIdentifier(path.node.callee) &&
-            path.node.callee.name === 'useFormik'
-          ) {
-            this.transformUseFormik(path);
-            this.changes.push('Converted useFormik() to useForm()');
+          // Conversions may replace the node, so keep the original to report
+          const node = path.node;
+          const reason = blockers.get(node) ?? rule.transform!(path, context);
+          if (!reason) {
+            this.recordConverted(rule.type, node);
+          } else if (this.options.partial) {
+            this.skip(path, rule.type, reason);
+            this.keepFormikContext(path, rule.type);
+          } else {
+            fieldError = reason;
+            path.stop();
           }
         },
+      });
 
-        // Transform Field → register
-        JSXElement: (path) => {
-          if (
-            t.isJSXIdentifier(path.node.openingElement.name) &&
-            path.node.openingElement.name.name === 'Field'
-          ) {
-            if (this.isSafeField(path)) {
-              this.transformField(path);
-              this.changes.push('Converted <Field> to native input with register()');
-            } else {
-              this.warnings.push('Complex <Field> pattern - needs manual review');
-            }
+      if (fieldError) {
+        return this.failure(fieldError);
+      }
+
+      // Type annotations follow the code they describe
+      traverse(ast, {
+        TSTypeReference: (path) => {
+          if (getFormikTypeName(path) && !this.isInUnconvertedComponent(path)) {
+            this.transformFormikType(path, context);
           }
         },
       });
 
-      const output = generate(ast, {
-        retainLines: true,
-        comments: true,
+      // Reconcile imports last, once we know what the converted code uses
+      traverse(ast, {
+        Program: (path) => {
+          this.updateImports(path);
+          path.stop();
+        },
       });
 
+      const convertedCode = printSource(ast, code, this.options.preserveFormatting !== false);
+
       return {
         success: true,
-        convertedCode: output.code,
+        convertedCode,
         warnings: this.warnings,
         changes: this.changes,
+        helpers: [...this.helpers],
+        converted: this.converted,
+        skipped: this.skipped,
       };
     } catch (error) {
-      return {
-        success: false,
-        error: `Parse error: ${(error as Error).message}`,
-        warnings: this.warnings,
-        changes: [],
-      };
+      return this.failure(`Parse error: ${(error as Error).message}`);
     }
   }
 
   /**
-   * Check if useFormik is safe to auto-convert
+   * Result for a file left untouched
    */
-  private isSafeUseFormik(path: any): boolean {
-    const arg = path.node.arguments[0];
+  private failure(error: string): ConversionResult {
+    return {
+      success: false,
+      error,
+      warnings: this.warnings,
+      changes: [],
+      converted: [],
+      skipped: this.skipped,
+    };
+  }
 
-    if (!t.isObjectExpression(arg)) {
-      return false;
+  /**
+   * The first rule of a level converting the pattern a node is
+   */
+  private findRule(path: NodePath, level: 'form' | 'field'): MigrationRule | null {
+    return this.rules.find((rule) => (rule.level ?? 'field') === level && rule.node === path.node.type && rule.match(path)) ?? null;
+  }
+
+  /**
+   * What the rules converting patterns can do with the file
+   */
+  private createContext(): RuleContext {
+    return {
+      filePath: this.filePath,
+      options: this.options,
+      takenNames: this.takenNames,
+      findFormApi: (path) => this.findFormApi(path),
+      resolveFormApi: (path) => this.resolveFormApi(path),
+      provideFormApi: (node, api, override = false) => {
+        if (override || !this.formApis.has(node)) {
+          this.formApis.set(node, api);
+        }
+      },
+      addImports: (names) => this.addImports(names),
+      addImport: (source, name, typeOnly) => this.imports.add(source, name, typeOnly),
+      warn: (message) => this.warnings.push(message),
+      logChange: (description) => this.changes.push(description),
+    };
+  }
+
+  /**
+   * Record a pattern as converted
+   */
+  private recordConverted(type: PatternType, node: t.Node) {
+    this.converted.push({ type, location: this.locate(node) });
+  }
+
+  /**
+   * Leave a pattern as-is: warn, record why and, in partial mode, mark it
+   * with a TODO comment
+   */
+  private skip(path: NodePath, type: PatternType, reason: string, comment = true) {
+    this.warnings.push(reason);
+    this.skipped.push({ type, location: this.locate(path.node), reason });
+
+    if (comment && this.options.partial) {
+      addTodoComment(path, reason);
     }
+  }
 
-    const props = arg.properties.map((p: any) =>
-      t.isObjectProperty(p) && t.isIdentifier(p.key) ? p.key.name : ''
+  /**
+   * Whether a pattern is listed in `options.exclude`
+   */
+  private isExcluded(node: t.Node): boolean {
+    return Boolean(
+      this.options.exclude?.some(
+        (location) => location.line === node.loc?.start.line && location.column === node.loc?.start.column
+      )
     );
+  }
 
-    // Only convert if it has: initialValues, onSubmit, and optionally validationSchema
-    const safeProps = ['initialValues', 'onSubmit', 'validationSchema'];
-    const unsafeProps = ['validate', 'validateOnChange', 'validateOnBlur', 'enableReinitialize'];
+  /**
+   * Leave a pattern listed in `options.exclude` as it is. Returns true when
+   * it was excluded.
+   */
+  private exclude(path: NodePath, type: PatternType): boolean {
+    if (!this.isExcluded(path.node)) {
+      return false;
+    }
 
-    const hasUnsafe = props.some((p: string) => unsafeProps.includes(p));
-    const hasOnlyAllowed = props.every((p: string) => safeProps.includes(p) || !p);
+    this.skip(path, type, EXCLUDED_REASON, false);
+    return true;
+  }
 
-    return !hasUnsafe && hasOnlyAllowed;
+  /**
+   * Leave a form listed in `options.exclude` to Formik, with its fields.
+   * Returns true when it was excluded.
+   */
+  private excludeForm(path: NodePath, type: PatternType): boolean {
+    if (!this.isExcluded(path.node)) {
+      return false;
+    }
+
+    this.leaveToFormik(path, type, EXCLUDED_REASON, false);
+    return true;
   }
 
   /**
-   * Check if Field is safe to convert
+   * Leave a whole form to Formik (useFormik(), <Formik> or withFormik()):
+   * the fields that belong to it stay as they are too
    */
-  private isSafeField(path: any): boolean {
-    const attrs = path.node.openingElement.attributes;
-
-    // Safe if it's a simple input with just name and type
-    const hasComplexProps = attrs.some(
-      (attr: any) =>
-        t.isJSXAttribute(attr) &&
-        t.isJSXIdentifier(attr.name) &&
-        ['render', 'component', 'children', 'as'].includes(attr.name.name)
-    );
+  private leaveToFormik(path: NodePath, type: PatternType, reason: string, comment = true) {
+    this.skip(path, type, reason, comment);
+    this.unconvertedForms.push(...this.getFormScopes(path, type));
+  }
+
+  /**
+   * A hook left reading Formik's context keeps the rest of its component
+   * on Formik: fields converted next to it would read a form context the
+   * component can't be rendered in at the same time
+   */
+  private keepFormikContext(path: NodePath, type: PatternType) {
+    if (type !== 'useFormikContext' && type !== 'useField') {
+      return;
+    }
 
-    return !hasComplexProps;
+    const component = findEnclosingComponent(path);
+    if (component && !this.formApis.has(component.node)) {
+      this.unconvertedForms.push(component.node);
+    }
   }
 
   /**
-   * Transform Formik imports to RHF
+   * Nodes holding the code that uses a form: the form itself, plus the
+   * component calling useFormik() or wrapped by withFormik()
    */
-  private transformImports(path: any) {
-    const newSpecifiers: any[] = [];
-
-    path.node.specifiers.forEach((spec: any) => {
-      if (t.isImportSpecifier(spec)) {
-        const name = spec.imported.name;
-
-        if (name === 'useFormik') {
-          newSpecifiers.push(
-            t.importSpecifier(t.identifier('useForm'), t.identifier('useForm'))
-          );
-        } else if (name === 'Formik') {
-          // Skip - component pattern needs manual review
-        } else if (name === 'Field') {
-          // Fields will use register, not imported
-        } else {
-          newSpecifiers.push(spec);
-        }
-      }
+  private getFormScopes(path: NodePath, type: PatternType): t.Node[] {
+    const scopes = [path.node];
+
+    const component = path.isJSXElement() ? null : findEnclosingComponent(path);
+    if (component) {
+      scopes.push(component.node);
+    }
+
+    // withFormik() provides its form to the component it wraps
+    const wrapped = type === 'withFormik' ? getWrappedComponent(path as NodePath<t.CallExpression>) : null;
+    if (wrapped) {
+      scopes.push(wrapped.node);
+    }
+
+    return scopes;
+  }
+
+  /**
+   * The innermost of `forms` a pattern belongs to, if any
+   */
+  private findEnclosingForm<T extends { path: NodePath; type: PatternType }>(path: NodePath, forms: T[]): T | null {
+    const scopes = new Map<t.Node, T>();
+    forms.forEach((form) => {
+      this.getFormScopes(form.path, form.type).forEach((node) => scopes.set(node, form));
     });
 
-    path.node.source = t.stringLiteral('react-hook-form');
-    path.node.specifiers = newSpecifiers;
+    let current: NodePath | null = path.parentPath;
+    while (current) {
+      const form = scopes.get(current.node);
+      if (form) {
+        return form;
+      }
+      current = current.parentPath;
+    }
+
+    return null;
   }
 
   /**
-   * Transform useFormik to useForm
+   * Fields, error messages and field arrays of a form left to Formik can't
+   * be converted on their own. Records them as skipped (without a comment -
+   * the form has one) and returns true.
    */
-  private transformUseFormik(path: any) {
-    const arg = path.node.arguments[0];
+  private belongsToUnconvertedForm(path: NodePath, type: PatternType): boolean {
+    if (this.unconvertedForms.length === 0) {
+      return false;
+    }
 
-    if (!t.isObjectExpression(arg)) {
-      return;
+    let current: NodePath | null = path;
+    while (current) {
+      if (this.formApis.has(current.node)) {
+        return false;
+      }
+      if (this.unconvertedForms.includes(current.node)) {
+        this.skip(path, type, 'Belongs to a Formik form left for manual review', false);
+        return true;
+      }
+      current = current.parentPath;
     }
 
-    const newProps: any[] = [];
-
-    arg.properties.forEach((prop: any) => {
-      if (t.isObjectProperty(prop) && t.isIdentifier(prop.key)) {
-        const key = prop.key.name;
-
-        if (key === 'initialValues') {
-          // initialValues → defaultValues
-          newProps.push(
-            t.objectProperty(t.identifier('defaultValues'), prop.value)
-          );
-        } else if (key === 'validationSchema') {
-          // validationSchema → resolver: yupResolver(schema)
-          newProps.push(
-            t.objectProperty(
-              t.identifier('resolver'),
-              t.callExpression(t.identifier('yupResolver'), [prop.value])
-            )
-          );
-          this.warnings.push('Add: import { yupResolver } from "@hookform/resolvers/yup"');
-        } else {
-          newProps.push(prop);
-        }
+    // No converted form around it: the form context may still be Formik's
+    this.skip(path, type, 'May use the context of a Formik form left for manual review', false);
+    return true;
+  }
+
+  /**
+   * Whether `path` is in a component holding a form left to Formik, whose
+   * Formik types are still needed
+   */
+  private isInUnconvertedComponent(path: NodePath): boolean {
+    const component = findEnclosingComponent(path);
+
+    return this.unconvertedForms.some((form) => {
+      let contained = Boolean(path.findParent((parent) => parent.node === form));
+      if (component) {
+        t.traverseFast(component.node, (node) => {
+          contained ||= node === form;
+        });
       }
+      return contained;
     });
+  }
 
-    arg.properties = newProps;
-    path.node.callee.name = 'useForm';
+  private locate(node: t.Node): FormikPattern['location'] {
+    return {
+      file: this.filePath,
+      line: node.loc?.start.line || 0,
+      column: node.loc?.start.column || 0,
+    };
   }
 
   /**
-   * Transform simple Field to native input
+   * Record imports the converted code needs
    */
-  private transformField(path: any) {
-    const attrs = path.node.openingElement.attributes;
-    let nameValue: string | null = null;
-    let typeValue = 'text';
-
-    // Extract name and type
-    attrs.forEach((attr: any) => {
-      if (t.isJSXAttribute(attr) && t.isJSXIdentifier(attr.name)) {
-        if (attr.name.name === 'name' && t.isStringLiteral(attr.value)) {
-          nameValue = attr.value.value;
-        }
-        if (attr.name.name === 'type' && t.isStringLiteral(attr.value)) {
-          typeValue = attr.value.value;
-        }
+  private addImports(names: string[]) {
+    names.forEach((name) => {
+      if (name === VALIDATE_RESOLVER) {
+        this.helpers.add(name);
+        this.imports.add(getHelpersImportPath(this.filePath, this.getHelpersModule()), name);
+      } else {
+        this.imports.add(this.target.getImportSource(name), name);
       }
     });
+  }
 
-    if (!nameValue) {
-      this.warnings.push('Field without name - skipped');
-      return;
+  /**
+   * Add the imports the converted code needs, and drop formik imports it
+   * no longer uses
+   */
+  private updateImports(program: NodePath<t.Program>) {
+    const importsFormik = program.node.body.some(
+      (statement) => t.isImportDeclaration(statement) && statement.source.value === 'formik'
+    );
+
+    const { changed, clashes } = this.imports.apply(program, ['formik']);
+    clashes.forEach((name) => {
+      this.warnings.push(`\`${name}\` is already declared in this file - import it manually`);
+    });
+
+    if (importsFormik && changed) {
+      this.changes.push(`Updated imports from formik to ${this.target.package}`);
+    }
+  }
+
+  /**
+   * Path (without extension) of the shared helpers module
+   */
+  private getHelpersModule(): string {
+    return this.options.helpersModule ?? path.join(process.cwd(), VALIDATE_RESOLVER);
+  }
+
+  /**
+   * Names already introduced into a component by the conversion
+   */
+  private takenNames = (component: t.Node): Set<string> => {
+    if (!this.componentNames.has(component)) {
+      this.componentNames.set(component, new Set());
     }
+    return this.componentNames.get(component)!;
+  };
 
-    // Replace with: <input {...register("name")} type="text" />
-    path.node.openingElement.name = t.jsxIdentifier('input');
-    path.node.closingElement = null; // Self-closing
+  /**
+   * Find the nearest converted form around a path
+   */
+  private findFormApi(path: NodePath): FormApi | null {
+    let current: NodePath | null = path;
+
+    while (current) {
+      const api = this.formApis.get(current.node);
+      if (api) {
+        return api;
+      }
+      current = current.parentPath;
+    }
 
-    path.node.openingElement.attributes = [
-      t.jsxSpreadAttribute(
-        t.callExpression(t.identifier('register'), [t.stringLiteral(nameValue)])
-      ),
-      t.jsxAttribute(t.jsxIdentifier('type'), t.stringLiteral(typeValue)),
-    ];
+    return null;
+  }
+
+  /**
+   * Find the form a path belongs to: the nearest converted form, or the
+   * form context of the enclosing component
+   */
+  private resolveFormApi(path: NodePath): FormApi | null {
+    const converted = this.findFormApi(path);
+    if (converted) {
+      return converted;
+    }
+
+    const component = findEnclosingComponent(path);
+    if (!component) {
+      return null;
+    }
+
+    // const { register } = useFormContext();
+    if (!t.isBlockStatement(component.node.body)) {
+      const arrow: NodePath<t.ArrowFunctionExpression> = component as NodePath<t.ArrowFunctionExpression>;
+      arrow.ensureBlock();
+    }
+
+    const pattern = t.objectPattern([]);
+    (component.get('body') as NodePath<t.BlockStatement>).unshiftContainer(
+      'body',
+      t.variableDeclaration('const', [
+        t.variableDeclarator(pattern, t.callExpression(t.identifier('useFormContext'), [])),
+      ])
+    );
+
+    const api = FormApi.pattern(pattern, component.scope, this.takenNames(component.node));
+    this.formApis.set(component.node, api);
+    this.addImports(['useFormContext']);
+    return api;
+  }
+
+  /**
+   * Transform a Formik type reference for the target. Types without an
+   * equivalent are left as-is with a warning.
+   */
+  private transformFormikType(path: NodePath<t.TSTypeReference>, context: RuleContext) {
+    const reason = this.target.transformType
+      ? this.target.transformType(path, {
+          ...context,
+          // One entry for all the types of a file
+          logChange: (description) => {
+            if (!this.changes.includes(description)) {
+              this.changes.push(description);
+            }
+          },
+        })
+      : `Formik type \`${getFormikTypeName(path)}\` has no automatic ${this.target.label} mapping (${formatLocation(path.node)})`;
+
+    if (reason) {
+      this.warnings.push(reason);
+    }
   }
 }
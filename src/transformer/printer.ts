@@ -0,0 +1,101 @@
+import { parse, ParserOptions } from '@babel/parser';
+import generate from '@babel/generator';
+import * as t from '@babel/types';
+import * as recast from 'recast';
+
+const PARSER_OPTIONS: ParserOptions = {
+  sourceType: 'module',
+  plugins: ['jsx', 'typescript'],
+};
+
+/**
+ * Parse a source file. With `preserveFormatting`, the AST keeps track of
+ * the original source so untouched code can be printed back as it was.
+ */
+export function parseSource(code: string, preserveFormatting: boolean): t.File {
+  if (!preserveFormatting) {
+    return parse(code, PARSER_OPTIONS);
+  }
+
+  return recast.parse(code, {
+    parser: {
+      parse: (source: string) => parse(source, { ...PARSER_OPTIONS, tokens: true }),
+    },
+  });
+}
+
+/**
+ * Print a (transformed) AST. With `preserveFormatting`, only the nodes
+ * that changed are reprinted and everything else is kept byte-for-byte.
+ */
+export function printSource(ast: t.File, original: string, preserveFormatting: boolean): string {
+  if (!preserveFormatting) {
+    return generate(ast, { retainLines: true, comments: true }).code;
+  }
+
+  keepJsxAttributeQuotes(ast);
+  return printRawStrings(ast, () => recast.print(ast, { quote: detectQuote(original), arrowParensAlways: true }).code);
+}
+
+/**
+ * Attach a comment both printers pick up: Babel's generator reads
+ * `leadingComments`/`innerComments`, recast its own `comments` list
+ */
+export function attachComment(node: t.Node, type: 'leading' | 'inner', value: string, line: boolean) {
+  t.addComment(node, type, value, line);
+
+  const recastNode = node as t.Node & { comments?: object[] };
+  recastNode.comments = [
+    ...(recastNode.comments ?? []),
+    // recast ends new leading comments with a line break; inner ones
+    // (`{/* ... */}`) print inline as trailing comments
+    { type: line ? 'CommentLine' : 'CommentBlock', value, leading: type === 'leading', trailing: type === 'inner' },
+  ];
+}
+
+/**
+ * Recast prints every new string literal with the file's quote style, but
+ * JSX attributes conventionally keep double quotes (`type="email"`), so new
+ * attribute values get that as their raw text
+ */
+function keepJsxAttributeQuotes(ast: t.File) {
+  t.traverseFast(ast, (node) => {
+    if (t.isJSXAttribute(node) && t.isStringLiteral(node.value) && !node.value.loc && !node.value.value.includes('"')) {
+      node.value.extra = { raw: `"${node.value.value}"`, rawValue: node.value.value };
+    }
+  });
+}
+
+/**
+ * Print with recast, keeping the raw text (`extra.raw`) of new string
+ * literals, which recast ignores: they're printed as placeholders of the
+ * same length (so lines wrap the same) that are swapped for their raw text
+ * afterwards
+ */
+function printRawStrings(ast: t.File, print: () => string): string {
+  const literals: Array<{ node: t.StringLiteral; value: string; raw: string }> = [];
+
+  t.traverseFast(ast, (node) => {
+    const raw = t.isStringLiteral(node) && !node.loc ? node.extra?.raw : undefined;
+    if (t.isStringLiteral(node) && typeof raw === 'string' && node.extra?.rawValue === node.value && node.value) {
+      literals.push({ node, value: node.value, raw });
+      // a character from Unicode's private use area, repeated
+      node.value = String.fromCharCode(0xe000 + literals.length).repeat(node.value.length);
+    }
+  });
+
+  let code = print();
+  for (const { node, value, raw } of literals) {
+    code = code.replace(new RegExp(`(['"])${node.value}\\1`), () => raw);
+    node.value = value;
+  }
+
+  return code;
+}
+
+/**
+ * Quote style of the file's imports, used for string literals we add
+ */
+function detectQuote(code: string): 'single' | 'double' {
+  return /\bfrom\s+'/.test(code) || /^\s*import\s+'/m.test(code) ? 'single' : 'double';
+}
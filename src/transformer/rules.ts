@@ -0,0 +1,144 @@
+/**
+ * Migration rules - how each Formik pattern is detected and converted
+ *
+ * The analyzer and the transformer both run the rules of the registered
+ * plugins (see src/plugins), the built-in ones below first. Built-in
+ * patterns are detected the same way for every target; how they convert
+ * depends on the target (see ./targets).
+ */
+
+import { NodePath } from '@babel/traverse';
+import * as t from '@babel/types';
+import type { BuiltinPatternType, FormikPattern } from '../analyzer';
+import { FormApi } from './form-api';
+import type { MigrationTarget } from './targets';
+import { formatLocation, isFormikImport } from './utils';
+import type { TransformOptions } from '.';
+
+/**
+ * What a rule converting a pattern can do with the file being transformed
+ */
+export interface RuleContext {
+  readonly filePath: string;
+  readonly options: TransformOptions;
+  /** Names already introduced into a component by the conversion */
+  takenNames(component: t.Node): Set<string>;
+  /** The nearest converted form around a path */
+  findFormApi(path: NodePath): FormApi | null;
+  /**
+   * The form a path belongs to: the nearest converted form, or the form
+   * context of the enclosing component (adding a useFormContext() call)
+   */
+  resolveFormApi(path: NodePath): FormApi | null;
+  /**
+   * Make a converted form the one of the code below `node`. Unless
+   * `override` is set, a form already registered for `node` is kept.
+   */
+  provideFormApi(node: t.Node, api: FormApi, override?: boolean): void;
+  /** Record imports the converted code needs, by name (from the target's modules, or the helpers module) */
+  addImports(names: string[]): void;
+  /** Record an import from any module */
+  addImport(source: string, name: string, typeOnly?: boolean): void;
+  warn(message: string): void;
+  /** Describe a change made to the file, as listed in the conversion result */
+  logChange(description: string): void;
+}
+
+/**
+ * A Formik pattern: how to find it, whether it can be converted and how
+ */
+export interface MigrationRule<T extends t.CallExpression | t.JSXElement = any> {
+  /** Pattern type, as reported by the analyzer and in conversion results */
+  type: FormikPattern['type'];
+  /** Node type of the pattern */
+  node: T['type'];
+  /**
+   * `form` rules create a form (useFormik, <Formik>): they run first, and
+   * the code using a form they can't convert stays as Formik too. `field`
+   * rules (the default) convert code using a form.
+   */
+  level?: 'form' | 'field';
+  /** Whether a node is this pattern */
+  match(path: NodePath<T>): boolean;
+  /**
+   * Why the pattern can't be converted automatically, or null. Must not
+   * change the AST: the analyzer calls it too.
+   */
+  getBlocker?(path: NodePath<T>): string | null;
+  /** Complexity reported by the analyzer (default: medium with a blocker, simple without) */
+  getComplexity?(path: NodePath<T>, blocker: string | null): FormikPattern['complexity'];
+  /**
+   * Convert the pattern. Returns why it was left as-is, or null once
+   * converted. Rules without it only report the pattern.
+   *
+   * Only runs on patterns `getBlocker` lets through, so the transformer
+   * converts what the analyzer reports as safe. Reasons that depend on
+   * which form the pattern belongs to are returned from here.
+   */
+  transform?(path: NodePath<T>, context: RuleContext): string | null;
+}
+
+/**
+ * Whether a JSX element is named `name`
+ */
+function isElement(path: NodePath<t.JSXElement>, name: string): boolean {
+  return t.isJSXIdentifier(path.node.openingElement.name, { name });
+}
+
+/**
+ * How each built-in pattern is found, forms first
+ */
+export const BUILTIN_DETECTORS: Array<Pick<MigrationRule, 'node' | 'level' | 'match'> & { type: BuiltinPatternType }> = [
+  {
+    type: 'useFormik',
+    node: 'CallExpression',
+    level: 'form',
+    match: (path: NodePath<t.CallExpression>) => t.isIdentifier(path.node.callee, { name: 'useFormik' }),
+  },
+  {
+    type: 'withFormik',
+    node: 'CallExpression',
+    level: 'form',
+    match: (path: NodePath<t.CallExpression>) =>
+      t.isIdentifier(path.node.callee, { name: 'withFormik' }) && isFormikImport(path, 'withFormik'),
+  },
+  { type: 'Formik', node: 'JSXElement', level: 'form', match: (path) => isElement(path, 'Formik') },
+  {
+    type: 'useField',
+    node: 'CallExpression',
+    match: (path: NodePath<t.CallExpression>) => t.isIdentifier(path.node.callee, { name: 'useField' }),
+  },
+  {
+    type: 'useFormikContext',
+    node: 'CallExpression',
+    match: (path: NodePath<t.CallExpression>) => t.isIdentifier(path.node.callee, { name: 'useFormikContext' }),
+  },
+  {
+    type: 'connect',
+    node: 'CallExpression',
+    match: (path: NodePath<t.CallExpression>) =>
+      t.isIdentifier(path.node.callee, { name: 'connect' }) && isFormikImport(path, 'connect'),
+  },
+  { type: 'FieldArray', node: 'JSXElement', match: (path) => isElement(path, 'FieldArray') },
+  { type: 'ErrorMessage', node: 'JSXElement', match: (path) => isElement(path, 'ErrorMessage') },
+  { type: 'Form', node: 'JSXElement', match: (path) => isElement(path, 'Form') && isFormikImport(path, 'Form') },
+  { type: 'Field', node: 'JSXElement', match: (path) => isElement(path, 'Field') },
+  { type: 'FastField', node: 'JSXElement', match: (path) => isElement(path, 'FastField') },
+];
+
+/**
+ * Built-in rules converting to a target. Patterns the target has no
+ * conversion for are reported, and left as-is, as unsupported.
+ */
+export function getBuiltinRules(target: MigrationTarget): MigrationRule[] {
+  return BUILTIN_DETECTORS.map((detector) => {
+    const conversion = target.conversions[detector.type];
+    if (conversion) {
+      return { ...detector, ...conversion };
+    }
+
+    const getReason = (path: NodePath) =>
+      `${detector.type} isn't supported by the ${target.label} target yet (${formatLocation(path.node)})`;
+    return { ...detector, getBlocker: getReason, transform: getReason };
+  });
+}
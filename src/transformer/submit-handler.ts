@@ -0,0 +1,107 @@
+import type { NodePath, Scope } from '@babel/traverse';
+import * as t from '@babel/types';
+import { FormApi } from './form-api';
+import type { FormikConfig } from './form-options';
+import { BagRewritePlan, planBagRewrites } from './formik-bag';
+import { formatLocation, uniqueName } from './utils';
+
+/**
+ * Plan the rewrite of the Formik helpers argument of a submit handler
+ * (`(values, { setSubmitting, resetForm }) => ...`) onto the RHF API.
+ * RHF's handleSubmit only passes the values, so the helpers parameter is
+ * dropped once its usages are rewritten: members `include` rejects must be
+ * taken care of by the caller.
+ *
+ * The helpers become calls on the form, so the handler must be declared in
+ * `component`, the function holding the form (null when the caller moves
+ * the handler there itself).
+ */
+export function planSubmitHelperRewrites(
+  handler: NodePath<t.Function> | null,
+  api: FormApi,
+  component: t.Node | null,
+  include?: (member: string) => boolean
+): BagRewritePlan {
+  if (!handler || handler.node.params.length < 2) {
+    return { rewrites: [] };
+  }
+
+  const location = formatLocation(handler.node);
+  if (handler.node.params.length > 2) {
+    return { reason: `onSubmit takes more than values and the Formik helpers (${location})` };
+  }
+
+  if (component && !handler.findParent((parent) => parent.node === component)) {
+    return { reason: `onSubmit handler with Formik helpers is declared outside the component (${location})` };
+  }
+
+  // A named handler is rewritten in place, so nothing else may call it
+  const id = handler.isFunctionDeclaration()
+    ? handler.node.id
+    : t.isVariableDeclarator(handler.parent)
+      ? handler.parent.id
+      : null;
+  if (id) {
+    const binding = t.isIdentifier(id) ? handler.scope.parent?.getBinding(id.name) : undefined;
+    if (!binding || binding.referencePaths.length !== 1) {
+      return { reason: `onSubmit handler with Formik helpers is used elsewhere too (${location})` };
+    }
+  }
+
+  const plan = planBagRewrites(
+    handler.get('params.1') as NodePath<t.LVal>,
+    api,
+    handler.node,
+    'the onSubmit helpers',
+    include
+  );
+  if (plan.reason) {
+    return plan;
+  }
+
+  return {
+    rewrites: [
+      ...plan.rewrites!,
+      () => {
+        handler.node.params.splice(1);
+      },
+    ],
+  };
+}
+
+/**
+ * Type the values of an inline submit handler moved out of the Formik
+ * options, which typed them: with the form's type argument, or else as
+ * `typeof` the initial values (inline ones move into a `defaultValues`
+ * const, returned to insert ahead of the form, and `config` points at it).
+ */
+export function typeSubmitValues(
+  handler: t.Expression,
+  config: FormikConfig,
+  typeArgument: t.TSType | null,
+  scope: Scope,
+  taken: Set<string>
+): t.Statement[] {
+  const [values] = t.isArrowFunctionExpression(handler) || t.isFunctionExpression(handler) ? handler.params : [];
+  if (!(t.isIdentifier(values) || t.isObjectPattern(values) || t.isArrayPattern(values)) || values.typeAnnotation) {
+    return [];
+  }
+
+  if (typeArgument) {
+    values.typeAnnotation = t.tsTypeAnnotation(t.cloneNode(typeArgument, true));
+    return [];
+  }
+  if (!config.initialValues) {
+    return [];
+  }
+
+  const hoisted: t.Statement[] = [];
+  if (!t.isIdentifier(config.initialValues)) {
+    const name = uniqueName(scope, 'defaultValues', taken);
+    hoisted.push(t.variableDeclaration('const', [t.variableDeclarator(t.identifier(name), config.initialValues)]));
+    config.initialValues = t.identifier(name);
+  }
+
+  values.typeAnnotation = t.tsTypeAnnotation(t.tsTypeQuery(t.identifier(config.initialValues.name)));
+  return hoisted;
+}
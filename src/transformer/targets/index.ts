@@ -0,0 +1,61 @@
+import type { NodePath } from '@babel/traverse';
+import type * as t from '@babel/types';
+import type { BuiltinPatternType } from '../../analyzer';
+import type { MigrationRule, RuleContext } from '../rules';
+import { reactHookFormTarget } from './react-hook-form';
+import { tanstackFormTarget } from './tanstack-form';
+
+/**
+ * How a target converts one built-in pattern. Detection is shared by every
+ * target (see BUILTIN_DETECTORS).
+ */
+export type PatternConversion<T extends t.CallExpression | t.JSXElement = any> = Pick<
+  MigrationRule<T>,
+  'getBlocker' | 'getComplexity' | 'transform'
+>;
+
+/**
+ * A form library the Formik code is migrated to
+ */
+export interface MigrationTarget {
+  /** Name given to `--target` */
+  name: string;
+  /** Name of the library, for messages */
+  label: string;
+  /** Package the converted code mostly imports from */
+  package: string;
+  /** Packages the converted code needs installed */
+  dependencies: string[];
+  /**
+   * Conversions of the built-in patterns, by pattern type. Patterns without
+   * one are reported as needing manual review.
+   */
+  conversions: Partial<Record<BuiltinPatternType, PatternConversion>>;
+  /** Module the converted code imports a name from */
+  getImportSource(name: string): string;
+  /**
+   * Convert a reference to a Formik type. Returns the reason it was left
+   * as-is, or null once converted. Without it, Formik types are left for
+   * manual review.
+   */
+  transformType?(path: NodePath<t.TSTypeReference>, context: RuleContext): string | null;
+}
+
+export type TargetName = 'react-hook-form' | 'tanstack-form';
+
+export const DEFAULT_TARGET: TargetName = 'react-hook-form';
+
+export const TARGETS: Record<TargetName, MigrationTarget> = {
+  'react-hook-form': reactHookFormTarget,
+  'tanstack-form': tanstackFormTarget,
+};
+
+/**
+ * A target by name. Throws for unknown ones.
+ */
+export function getTarget(name: string = DEFAULT_TARGET): MigrationTarget {
+  if (!(name in TARGETS)) {
+    throw new Error(`Unknown target "${name}" (expected one of: ${Object.keys(TARGETS).join(', ')})`);
+  }
+  return TARGETS[name as TargetName];
+}
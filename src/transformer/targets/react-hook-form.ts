@@ -0,0 +1,328 @@
+/**
+ * React Hook Form target - the default one
+ */
+
+import type { NodePath } from '@babel/traverse';
+import * as t from '@babel/types';
+import { convertErrorMessage, getErrorMessageBlocker } from '../error-message';
+import { convertField, getFieldBlocker } from '../field';
+import { convertFieldArray, getFieldArrayBlocker } from '../field-array';
+import { convertFormElement, getFormElementBlocker } from '../form-element';
+import {
+  convertConnect,
+  convertUseFormikContext,
+  FormContextConversion,
+  getConnectBlocker,
+  getProviderWarning,
+  getUseFormikContextBlocker,
+} from '../form-context';
+import { convertFormikComponent, getFormikComponentBlocker } from '../formik-component';
+import { convertFormikType } from '../formik-types';
+import { convertUseField, getUseFieldBlocker } from '../use-field';
+import { convertUseFormik, getUseFormikBlocker } from '../use-formik';
+import { isTypeScriptFile } from '../utils';
+import { convertWithFormik, getWithFormikBlocker } from '../with-formik';
+import type { MigrationTarget, PatternConversion } from '.';
+
+/**
+ * useFormik options with a useForm() equivalent
+ */
+const SAFE_USE_FORMIK_OPTIONS = [
+  'initialValues',
+  'onSubmit',
+  'validationSchema',
+  'validate',
+  'validateOnChange',
+  'validateOnBlur',
+  'enableReinitialize',
+];
+
+/**
+ * Check if useFormik is safe to auto-convert. Returns the reason it isn't,
+ * or null.
+ */
+function getUseFormikReason(path: NodePath<t.CallExpression>): string | null {
+  const arg = path.node.arguments[0];
+
+  if (!t.isObjectExpression(arg)) {
+    return 'Non-standard configuration object';
+  }
+
+  // Every usage of the result must map onto useForm()
+  const blocker = getUseFormikBlocker(path);
+  if (blocker) {
+    return blocker;
+  }
+
+  // Only convert if it has: initialValues, onSubmit, and optionally
+  // validationSchema / validate and the validation trigger / reinitialize flags
+  const unsupported = arg.properties
+    .map((p) => (t.isObjectProperty(p) && t.isIdentifier(p.key) ? p.key.name : ''))
+    .find((p) => p && !SAFE_USE_FORMIK_OPTIONS.includes(p));
+
+  return unsupported ? `Unsupported useFormik option \`${unsupported}\`` : null;
+}
+
+/**
+ * useFormik → useForm, rewriting every usage of its result
+ */
+const useFormikConversion: PatternConversion<t.CallExpression> = {
+  getBlocker: getUseFormikReason,
+  getComplexity: (path, blocker) =>
+    !t.isObjectExpression(path.node.arguments[0]) ? 'complex' : blocker ? 'medium' : 'simple',
+  transform(path, context) {
+    const conversion = convertUseFormik(path, context.takenNames, isTypeScriptFile(context.filePath));
+    if (typeof conversion === 'string') {
+      return conversion;
+    }
+
+    context.provideFormApi(conversion.component.node, conversion.api, true);
+    context.addImports(conversion.imports);
+    context.logChange('Converted useFormik() to useForm()');
+    return null;
+  },
+};
+
+/**
+ * withFormik(options)(Inner) → useForm() inside Inner
+ */
+const withFormikConversion: PatternConversion<t.CallExpression> = {
+  getBlocker: getWithFormikBlocker,
+  transform(path, context) {
+    const conversion = convertWithFormik(path, context.takenNames);
+    if (typeof conversion === 'string') {
+      return conversion;
+    }
+
+    context.provideFormApi(conversion.component.node, conversion.api, true);
+    context.addImports(conversion.imports);
+    context.logChange('Converted withFormik() to useForm() in the wrapped component');
+    return null;
+  },
+};
+
+/**
+ * <Formik> → useForm() hoisted into the enclosing component
+ */
+const formikConversion: PatternConversion<t.JSXElement> = {
+  getBlocker: getFormikComponentBlocker,
+  transform(path, context) {
+    const conversion = convertFormikComponent(path, context.takenNames, isTypeScriptFile(context.filePath));
+    if (typeof conversion === 'string') {
+      return conversion;
+    }
+
+    if (conversion.root) {
+      context.provideFormApi(conversion.root, conversion.api, true);
+    }
+    context.provideFormApi(conversion.component.node, conversion.api);
+    context.addImports(conversion.imports);
+    context.logChange(
+      conversion.imports.includes('FormProvider')
+        ? 'Converted <Formik> to useForm() with <FormProvider>'
+        : 'Converted <Formik> to useForm()'
+    );
+    return null;
+  },
+};
+
+/**
+ * useField() → useController(), bound to the `control` in scope or the
+ * form context
+ */
+const useFieldConversion: PatternConversion<t.CallExpression> = {
+  getBlocker: getUseFieldBlocker,
+  transform(path, context) {
+    const blocker = getUseFieldBlocker(path);
+    const control = blocker
+      ? null
+      : path.scope.hasBinding('control')
+        ? t.identifier('control')
+        : context.resolveFormApi(path)?.member('control');
+    const conversion = control
+      ? convertUseField(path, control, context.takenNames)
+      : blocker ?? 'useField outside a function component or hook - skipped';
+
+    if (typeof conversion === 'string') {
+      return conversion;
+    }
+
+    context.addImports(conversion.imports);
+    conversion.warnings.forEach((warning) => context.warn(warning));
+    context.logChange('Converted useField() to useController()');
+    return null;
+  },
+};
+
+/**
+ * useFormikContext() or connect() → useFormContext(), warning when the
+ * consumer isn't rendered below a <FormProvider>
+ */
+function formContextConversion(type: 'useFormikContext' | 'connect'): PatternConversion<t.CallExpression> {
+  return {
+    getBlocker: type === 'connect' ? getConnectBlocker : getUseFormikContextBlocker,
+    transform(path, context) {
+      const node = path.node;
+      const conversion: FormContextConversion | string =
+        type === 'useFormikContext'
+          ? convertUseFormikContext(path, context.takenNames)
+          : convertConnect(path, context.takenNames, isTypeScriptFile(context.filePath));
+
+      if (typeof conversion === 'string') {
+        return conversion;
+      }
+
+      context.provideFormApi(conversion.component.node, conversion.api);
+      context.addImports(conversion.imports);
+      context.logChange(
+        type === 'useFormikContext'
+          ? 'Converted useFormikContext() to useFormContext()'
+          : 'Converted connect() to a useFormContext() wrapper'
+      );
+
+      // connect() replaces the call, so report the original location
+      const warning = getProviderWarning(path, conversion.name, node);
+      if (warning) {
+        context.warn(warning);
+      }
+      return null;
+    },
+  };
+}
+
+/**
+ * <FieldArray> → useFieldArray() hoisted into the enclosing component
+ */
+const fieldArrayConversion: PatternConversion<t.JSXElement> = {
+  getBlocker: getFieldArrayBlocker,
+  transform(path, context) {
+    const blocker = getFieldArrayBlocker(path);
+    const api = blocker ? null : context.resolveFormApi(path);
+    const conversion = api
+      ? convertFieldArray(path, api, context.takenNames)
+      : blocker ?? 'FieldArray outside a function component - skipped';
+
+    if (typeof conversion === 'string') {
+      return conversion;
+    }
+
+    context.addImports(conversion.imports);
+    conversion.warnings.forEach((warning) => context.warn(warning));
+    context.logChange('Converted <FieldArray> to useFieldArray()');
+    return null;
+  },
+};
+
+/**
+ * <ErrorMessage> → error rendering over formState.errors
+ */
+const errorMessageConversion: PatternConversion<t.JSXElement> = {
+  getBlocker: getErrorMessageBlocker,
+  transform(path, context) {
+    const api = context.resolveFormApi(path);
+    const conversion = api
+      ? convertErrorMessage(path, api, context.options.errorMessage)
+      : 'ErrorMessage outside a function component - skipped';
+
+    if (typeof conversion === 'string') {
+      return conversion;
+    }
+
+    context.addImports(conversion.imports);
+    context.logChange(
+      context.options.errorMessage === 'hookform'
+        ? 'Converted <ErrorMessage> to @hookform/error-message'
+        : 'Converted <ErrorMessage> to inline formState.errors rendering'
+    );
+    return null;
+  },
+};
+
+/**
+ * Formik's <Form> → a native <form> submitting through the RHF form
+ * around it
+ */
+const formElementConversion: PatternConversion<t.JSXElement> = {
+  getBlocker: getFormElementBlocker,
+  transform(path, context) {
+    const error = convertFormElement(path, context.findFormApi(path));
+    if (error) {
+      return error;
+    }
+
+    context.logChange('Converted <Form> to a native <form> with handleSubmit()');
+    return null;
+  },
+};
+
+/**
+ * <Field> → a native input spreading register()
+ */
+const fieldConversion: PatternConversion<t.JSXElement> = {
+  getBlocker: getFieldBlocker,
+  transform(path, context) {
+    const blocker = getFieldBlocker(path);
+    if (blocker) {
+      return blocker;
+    }
+
+    const api = context.resolveFormApi(path);
+    if (!api) {
+      return 'Field outside a function component - skipped';
+    }
+
+    const conversion = convertField(path, api);
+    if (typeof conversion === 'string') {
+      return conversion;
+    }
+
+    conversion.warnings.forEach((warning) => context.warn(warning));
+    context.logChange('Converted <Field> to native input with register()');
+    return null;
+  },
+};
+
+export const reactHookFormTarget: MigrationTarget = {
+  name: 'react-hook-form',
+  label: 'React Hook Form',
+  package: 'react-hook-form',
+  dependencies: ['react-hook-form', '@hookform/resolvers'],
+  conversions: {
+    useFormik: useFormikConversion,
+    withFormik: withFormikConversion,
+    Formik: formikConversion,
+    useField: useFieldConversion,
+    useFormikContext: formContextConversion('useFormikContext'),
+    connect: formContextConversion('connect'),
+    FieldArray: fieldArrayConversion,
+    ErrorMessage: errorMessageConversion,
+    Form: formElementConversion,
+    Field: fieldConversion,
+    // Reported like <Field>, but not converted yet
+    FastField: { getBlocker: getFieldBlocker },
+  },
+
+  getImportSource(name) {
+    if (name === 'yupResolver') {
+      return '@hookform/resolvers/yup';
+    }
+    if (name === 'ErrorMessage') {
+      return '@hookform/error-message';
+    }
+    return 'react-hook-form';
+  },
+
+  transformType(path, context) {
+    const conversion = convertFormikType(path);
+    if (typeof conversion === 'string') {
+      return conversion;
+    }
+
+    conversion.imports.forEach((name) => context.addImport('react-hook-form', name, conversion.typeOnly));
+    conversion.warnings.forEach((warning) => context.warn(warning));
+    if (conversion.imports.length > 0) {
+      context.logChange('Converted Formik types to React Hook Form types');
+    }
+    return null;
+  },
+};
@@ -0,0 +1,805 @@
+/**
+ * TanStack Form target - useFormik(), <Field> and <FieldArray>
+ *
+ * TanStack Form has no form context for fields to find their form in:
+ * fields render through the form object (`<form.Field>`), so they convert
+ * only in the component holding the form. Form state is read with
+ * `useStore(form.store, ...)`, which re-renders the component on changes.
+ */
+
+import type { NodePath } from '@babel/traverse';
+import * as t from '@babel/types';
+import { FormApi } from '../form-api';
+import { getOptionPath } from '../form-options';
+import {
+  BagReference,
+  collectBagReferences,
+  DESTRUCTURED,
+  getMemberName,
+  getProviderElement,
+  isAssignmentTarget,
+  PROVIDER_VALUE,
+} from '../formik-bag';
+import {
+  formatLocation,
+  getJsxAttribute,
+  getJsxAttributeExpression,
+  getJsxStringAttribute,
+  getPropertyName,
+  getRenderFunction,
+  replaceJsxElement,
+  resolveFunction,
+  toFieldPath,
+  uniqueName,
+} from '../utils';
+import type { MigrationTarget, PatternConversion } from '.';
+
+const PACKAGE = '@tanstack/react-form';
+
+/**
+ * Formik bag members read from the form state, by their form state key
+ */
+const STATE_MEMBERS: Record<string, string> = {
+  values: 'values',
+  isSubmitting: 'isSubmitting',
+  isValid: 'isValid',
+  isValidating: 'isValidating',
+  dirty: 'isDirty',
+  submitCount: 'submissionAttempts',
+};
+
+/**
+ * Formik bag members keyed by field, and what they read from the field's
+ * meta (`errors.email` → `fieldMeta.email?.errors[0]`)
+ */
+const META_MEMBERS: Record<string, string> = {
+  errors: 'errors',
+  touched: 'isTouched',
+};
+
+/**
+ * FieldArray helpers with a FieldApi equivalent
+ */
+const ARRAY_HELPERS: Record<string, string> = {
+  push: 'pushValue',
+  insert: 'insertValue',
+  replace: 'replaceValue',
+  remove: 'removeValue',
+  swap: 'swapValues',
+  move: 'moveValue',
+};
+
+/**
+ * Elements a <Field> renders as a native control
+ */
+const FIELD_ELEMENTS = ['input', 'select', 'textarea'];
+
+/**
+ * <Field> props Formik handles itself, with no counterpart on the control
+ */
+const UNSUPPORTED_FIELD_PROPS = ['validate', 'innerRef', 'value', 'checked', 'onChange', 'onBlur'];
+
+/**
+ * Names the rewrites of a useFormik() result refer to, picked once every
+ * usage is known
+ */
+interface FormNames {
+  /** The useForm() result */
+  form: string;
+  /** Local holding an entry of the form state, declared on first use */
+  state(key: string): string;
+}
+
+/**
+ * Rewrite of one usage of a useFormik() result
+ */
+interface FormRewrite {
+  path: NodePath;
+  /** Form state entry the rewritten code reads */
+  state?: string;
+  apply(names: FormNames): void;
+}
+
+/**
+ * Plan the conversion of `const formik = useFormik({...})`. Returns the
+ * rewrites of every usage of the result, or the reason it can't be
+ * converted. Nothing is changed.
+ */
+function planUseForm(path: NodePath<t.CallExpression>): FormRewrite[] | string {
+  const location = formatLocation(path.node);
+  const declarator = path.parentPath;
+
+  if (!t.isObjectExpression(path.node.arguments[0])) {
+    return 'Non-standard configuration object';
+  }
+  if (!declarator.isVariableDeclarator() || declarator.node.init !== path.node) {
+    return `useFormik() result is not assigned to a variable (${location})`;
+  }
+  if (!path.getFunctionParent()) {
+    return `useFormik() is called outside a function (${location})`;
+  }
+
+  const optionsBlocker = getOptionsBlocker(path.get('arguments.0') as NodePath<t.ObjectExpression>);
+  if (optionsBlocker) {
+    return optionsBlocker;
+  }
+
+  const collected = collectBagReferences(declarator.get('id') as NodePath<t.LVal>, 'the useFormik() result');
+  if ('reason' in collected) {
+    return collected.reason;
+  }
+
+  const rewrites: FormRewrite[] = [];
+  for (const ref of collected.references) {
+    const rewrite = planMemberRewrite(ref);
+    if (typeof rewrite === 'string') {
+      return rewrite;
+    }
+    rewrites.push(rewrite);
+  }
+
+  return rewrites;
+}
+
+/**
+ * Check the useFormik() options: initialValues and an onSubmit taking the
+ * values only. Returns the reason they can't be converted, or null.
+ */
+function getOptionsBlocker(options: NodePath<t.ObjectExpression>): string | null {
+  for (const prop of options.node.properties) {
+    const key = getPropertyName(prop);
+
+    if (!key) {
+      return `useFormik() options use spreads or computed keys (${formatLocation(options.node)})`;
+    }
+    if (key === 'validate' || key === 'validationSchema') {
+      return `useFormik() \`${key}\` isn't converted to TanStack Form validators yet (${formatLocation(prop)})`;
+    }
+    if (key !== 'initialValues' && key !== 'onSubmit') {
+      return `Unsupported useFormik option \`${key}\``;
+    }
+  }
+
+  const onSubmit = getOptionPath(options, 'onSubmit');
+  if (!onSubmit) {
+    return null;
+  }
+
+  const location = formatLocation(onSubmit.node);
+  const handler = resolveFunction(onSubmit);
+  if (!handler && !onSubmit.isIdentifier() && !onSubmit.isMemberExpression()) {
+    return `useFormik() onSubmit is not a function (${location})`;
+  }
+  if (handler && handler.node.params.length > 1) {
+    return `onSubmit uses the Formik submit helpers, TanStack Form passes none (${location})`;
+  }
+  if (handler && t.isRestElement(handler.node.params[0])) {
+    return `onSubmit takes its arguments as a rest parameter (${location})`;
+  }
+
+  return null;
+}
+
+/**
+ * Plan the rewrite of one usage of the useFormik() result. Returns the
+ * reason when it has no mapping.
+ */
+function planMemberRewrite(ref: BagReference): FormRewrite | string {
+  const { member, path } = ref;
+  const location = formatLocation(path.node);
+  const parent = path.parentPath!;
+  const call = parent.isCallExpression() && parent.node.callee === path.node ? parent : null;
+
+  if (isAssignmentTarget(path) || (parent.isMemberExpression() && isAssignmentTarget(parent))) {
+    return `Formik \`${member}\` is mutated directly (${location})`;
+  }
+
+  // <FormikProvider value={formik}>: fields get the form passed instead
+  if (member === PROVIDER_VALUE) {
+    return { path, apply: () => unwrapProvider(getProviderElement(path)!) };
+  }
+
+  // const { values } = formik: the members are rewritten on their own
+  if (member === DESTRUCTURED) {
+    return { path, apply: () => path.parentPath!.remove() };
+  }
+
+  if (STATE_MEMBERS[member]) {
+    const key = STATE_MEMBERS[member];
+    return { path, state: key, apply: (names) => path.replaceWith(t.identifier(names.state(key))) };
+  }
+
+  if (META_MEMBERS[member]) {
+    const field = parent.isMemberExpression() && parent.node.object === path.node ? getMemberName(parent.node) : null;
+    if (!field) {
+      return `Formik \`${member}\` is only converted when read for one field (\`${member}.email\`) (${location})`;
+    }
+
+    return {
+      path,
+      state: 'fieldMeta',
+      apply: (names) => parent.replaceWith(buildMetaLookup(names.state('fieldMeta'), field, META_MEMBERS[member])),
+    };
+  }
+
+  switch (member) {
+    case 'handleSubmit': {
+      if (call) {
+        return { path, apply: (names) => call.replaceWith(callForm(names.form, 'handleSubmit')) };
+      }
+      if (!isEventHandlerProp(path)) {
+        return `\`handleSubmit\` is used outside a call or an event handler prop (${location})`;
+      }
+
+      // onSubmit={formik.handleSubmit} → (event) => { event.preventDefault(); form.handleSubmit(); }
+      return {
+        path,
+        apply: (names) =>
+          path.replaceWith(
+            t.arrowFunctionExpression(
+              [t.identifier('event')],
+              t.blockStatement([
+                t.expressionStatement(t.callExpression(access(t.identifier('event'), 'preventDefault'), [])),
+                t.expressionStatement(callForm(names.form, 'handleSubmit')),
+              ])
+            )
+          ),
+      };
+    }
+
+    case 'handleChange':
+    case 'handleBlur': {
+      const element = isEventHandlerProp(path) ? (path.parentPath!.parentPath!.parentPath as NodePath<t.JSXOpeningElement>) : null;
+      const fieldName = element && getJsxStringAttribute(element.node, 'name');
+      if (!fieldName) {
+        return `\`${member}\` is only converted as the handler of an input with a static name (${location})`;
+      }
+
+      return {
+        path,
+        apply: (names) =>
+          path.replaceWith(
+            member === 'handleChange'
+              ? t.arrowFunctionExpression(
+                  [t.identifier('event')],
+                  callForm(names.form, 'setFieldValue', [
+                    toFieldName(t.stringLiteral(fieldName)),
+                    access(access(t.identifier('event'), 'target'), getEventValue(element!.node)),
+                  ])
+                )
+              : t.arrowFunctionExpression(
+                  [],
+                  buildSetTouched(names.form, toFieldName(t.stringLiteral(fieldName)), t.booleanLiteral(true))
+                )
+          ),
+      };
+    }
+
+    case 'setFieldValue':
+      if (!call || call.node.arguments.length > 2) {
+        return `\`setFieldValue\` is only converted when called with a field and a value (${location})`;
+      }
+      return {
+        path,
+        apply: (names) => {
+          const [field] = call.node.arguments;
+          if (t.isExpression(field)) {
+            call.node.arguments[0] = toFieldName(field);
+          }
+          path.replaceWith(access(t.identifier(names.form), 'setFieldValue'));
+        },
+      };
+
+    case 'setFieldTouched': {
+      const [field, touched, ...rest] = call?.node.arguments ?? [];
+      if (!call || !t.isExpression(field) || (touched && !t.isExpression(touched)) || rest.length > 0) {
+        return `\`setFieldTouched\` is only converted when called with a field and a flag (${location})`;
+      }
+      return {
+        path,
+        apply: (names) =>
+          call.replaceWith(
+            buildSetTouched(names.form, toFieldName(field), (touched as t.Expression) ?? t.booleanLiteral(true))
+          ),
+      };
+    }
+
+    case 'resetForm':
+    case 'submitForm':
+      if (!call || call.node.arguments.length > 0) {
+        return `\`${member}\` is only converted when called without arguments (${location})`;
+      }
+      return {
+        path,
+        apply: (names) => call.replaceWith(callForm(names.form, member === 'resetForm' ? 'reset' : 'handleSubmit')),
+      };
+
+    default:
+      return `Formik \`${member}\` has no automatic TanStack Form mapping (${location})`;
+  }
+}
+
+/**
+ * Convert `const formik = useFormik({...})` into TanStack Form's `useForm()`,
+ * rewriting every usage of the result
+ */
+const useFormikConversion: PatternConversion<t.CallExpression> = {
+  getBlocker: (path) => {
+    const plan = planUseForm(path);
+    return typeof plan === 'string' ? plan : null;
+  },
+  getComplexity: (path, blocker) =>
+    !t.isObjectExpression(path.node.arguments[0]) ? 'complex' : blocker ? 'medium' : 'simple',
+  transform(path, context) {
+    const rewrites = planUseForm(path);
+    if (typeof rewrites === 'string') {
+      return rewrites;
+    }
+
+    const declarator = path.parentPath as NodePath<t.VariableDeclarator>;
+    const component = path.getFunctionParent()!;
+    const taken = context.takenNames(component.node);
+    const usages = (key?: string) => rewrites.filter((rewrite) => rewrite.state === key).map((rewrite) => rewrite.path);
+
+    // `formik` would be a misleading name for the TanStack form
+    const id = declarator.node.id;
+    const form = t.isIdentifier(id) && id.name !== 'formik'
+      ? id.name
+      : pickName(component, 'form', taken, rewrites.map((rewrite) => rewrite.path), declarator);
+
+    const states = new Map<string, string>();
+    const names: FormNames = {
+      form,
+      state: (key) => {
+        if (!states.has(key)) {
+          states.set(key, pickName(component, key, taken, usages(key), declarator));
+        }
+        return states.get(key)!;
+      },
+    };
+
+    // Deepest first, so outer rewrites see the updated nodes
+    rewrites
+      .sort((a, b) => b.path.getAncestry().length - a.path.getAncestry().length)
+      .forEach((rewrite) => rewrite.apply(names));
+
+    convertOptions(path.get('arguments.0') as NodePath<t.ObjectExpression>, path.node.typeParameters?.params[0] ?? null);
+    declarator.node.id = t.identifier(form);
+    path.node.callee = t.identifier('useForm');
+    path.node.typeParameters = null;
+
+    // const values = useStore(form.store, (state) => state.values);
+    if (states.size > 0) {
+      declarator.parentPath.insertAfter(
+        [...states].map(([key, local]) =>
+          t.variableDeclaration('const', [
+            t.variableDeclarator(
+              t.identifier(local),
+              t.callExpression(t.identifier('useStore'), [
+                access(t.identifier(form), 'store'),
+                t.arrowFunctionExpression([t.identifier('state')], access(t.identifier('state'), key)),
+              ])
+            ),
+          ])
+        )
+      );
+    }
+
+    context.provideFormApi(component.node, FormApi.object(form, component.scope, taken), true);
+    context.addImports(states.size > 0 ? ['useForm', 'useStore'] : ['useForm']);
+    context.logChange('Converted useFormik() to TanStack Form useForm()');
+    return null;
+  },
+};
+
+/**
+ * `initialValues` → `defaultValues` and an onSubmit taking `{ value }`.
+ * TanStack Form infers the values type from the default values, so the
+ * type the values had (useFormik<Values>, or the onSubmit parameter's)
+ * moves onto them: `defaultValues: {...} as Values`.
+ */
+function convertOptions(options: NodePath<t.ObjectExpression>, typeArgument: t.TSType | null) {
+  const find = (key: string) => options.node.properties.find((prop) => getPropertyName(prop) === key);
+  const initialValues = find('initialValues') as t.ObjectProperty | undefined;
+  const onSubmit = find('onSubmit') as t.ObjectProperty | t.ObjectMethod | undefined;
+
+  const handler = t.isObjectMethod(onSubmit) ? onSubmit : onSubmit?.value;
+  const param = t.isFunction(handler)
+    ? (handler.params[0] as t.Identifier | t.ObjectPattern | t.ArrayPattern | t.AssignmentPattern | undefined)
+    : undefined;
+  const paramType = t.isTSTypeAnnotation(param?.typeAnnotation) ? param!.typeAnnotation.typeAnnotation : null;
+  const valuesType = typeArgument ?? (initialValues ? paramType : null);
+
+  if (initialValues) {
+    initialValues.key = t.identifier('defaultValues');
+    initialValues.shorthand = false;
+    if (valuesType) {
+      initialValues.value = t.tsAsExpression(initialValues.value as t.Expression, valuesType);
+    }
+  }
+
+  // onSubmit: save → onSubmit: ({ value }) => save(value)
+  if (onSubmit && !t.isFunction(handler)) {
+    (onSubmit as t.ObjectProperty).value = t.arrowFunctionExpression(
+      [t.objectPattern([t.objectProperty(t.identifier('value'), t.identifier('value'), false, true)])],
+      t.callExpression(handler as t.Expression, [t.identifier('value')])
+    );
+  }
+
+  // (values) => ... → ({ value: values }) => ...
+  if (t.isFunction(handler) && param) {
+    handler.params = [wrapValueParam(param, initialValues ? null : paramType)];
+  }
+}
+
+/**
+ * `values: Values` → `{ value: values }`, or `{ value: values }: { value: Values }`
+ * when the type is kept
+ */
+function wrapValueParam(
+  param: t.Identifier | t.ObjectPattern | t.ArrayPattern | t.AssignmentPattern,
+  valuesType: t.TSType | null
+): t.ObjectPattern {
+  param.typeAnnotation = null;
+
+  const shorthand = t.isIdentifier(param, { name: 'value' });
+  const pattern = t.objectPattern([t.objectProperty(t.identifier('value'), param, false, shorthand)]);
+
+  if (valuesType) {
+    pattern.typeAnnotation = t.tsTypeAnnotation(
+      t.tsTypeLiteral([t.tsPropertySignature(t.identifier('value'), t.tsTypeAnnotation(valuesType))])
+    );
+  }
+  return pattern;
+}
+
+/**
+ * <FormikProvider value={formik}>...</FormikProvider> → its children
+ */
+function unwrapProvider(element: NodePath<t.JSXElement>) {
+  const children = element.node.children.filter((child) => !(t.isJSXText(child) && child.value.trim() === ''));
+  const [child] = children;
+
+  replaceJsxElement(
+    element,
+    children.length === 1 && (t.isJSXElement(child) || t.isJSXFragment(child))
+      ? child
+      : t.jsxFragment(t.jsxOpeningFragment(), t.jsxClosingFragment(), element.node.children)
+  );
+}
+
+/**
+ * Check whether `<Field>` can render a native control inside `<form.Field>`.
+ * Returns the reason it can't, or null.
+ */
+function getFieldBlocker(path: NodePath<t.JSXElement>): string | null {
+  const opening = path.node.openingElement;
+  const location = formatLocation(path.node);
+  const tag = getJsxAttribute(opening, 'as') ? getJsxStringAttribute(opening, 'as') : 'input';
+
+  const hasCustomRender =
+    !tag ||
+    !FIELD_ELEMENTS.includes(tag) ||
+    ['render', 'component', 'children'].some((prop) => getJsxAttribute(opening, prop)) ||
+    path.node.children.some((child) => (tag === 'select' ? t.isJSXExpressionContainer(child) : !t.isJSXText(child) || child.value.trim() !== ''));
+  if (hasCustomRender) {
+    return 'Custom render/component prop needs adjustment';
+  }
+
+  if (opening.attributes.some((attr) => t.isJSXSpreadAttribute(attr))) {
+    return `<Field> spreads props (${location})`;
+  }
+
+  if (!getJsxAttributeExpression(getJsxAttribute(opening, 'name'))) {
+    return `<Field> without a name (${location})`;
+  }
+
+  const unsupported = UNSUPPORTED_FIELD_PROPS.find((prop) => getJsxAttribute(opening, prop));
+  if (unsupported) {
+    return `<Field ${unsupported}> isn't converted for TanStack Form yet (${location})`;
+  }
+
+  if (getJsxAttribute(opening, 'type') && !getJsxStringAttribute(opening, 'type')) {
+    return `<Field> with a dynamic type (${location})`;
+  }
+
+  return null;
+}
+
+/**
+ * <Field name="email" type="email" /> →
+ * <form.Field name="email">{(field) => <input name="email" type="email" value={field.state.value} ... />}</form.Field>
+ */
+const fieldConversion: PatternConversion<t.JSXElement> = {
+  getBlocker: getFieldBlocker,
+  transform(path, context) {
+    const blocker = getFieldBlocker(path);
+    if (blocker) {
+      return blocker;
+    }
+
+    const form = context.findFormApi(path)?.name;
+    if (!form) {
+      return `<Field> outside the component holding its form (${formatLocation(path.node)}) - TanStack Form fields need the form passed down`;
+    }
+
+    const opening = path.node.openingElement;
+    const tag = getJsxStringAttribute(opening, 'as') ?? 'input';
+    const field = uniqueName(path.scope, 'field');
+    const checkbox = getJsxStringAttribute(opening, 'type') === 'checkbox';
+
+    const attributes = [
+      ...opening.attributes.filter((attr) => !(t.isJSXAttribute(attr) && attr.name.name === 'as')),
+      jsxAttribute(checkbox ? 'checked' : 'value', access(access(t.identifier(field), 'state'), 'value')),
+      jsxAttribute(
+        'onChange',
+        t.arrowFunctionExpression(
+          [t.identifier('event')],
+          t.callExpression(access(t.identifier(field), 'handleChange'), [
+            access(access(t.identifier('event'), 'target'), getEventValue(opening)),
+          ])
+        )
+      ),
+      jsxAttribute('onBlur', access(t.identifier(field), 'handleBlur')),
+    ];
+    const children = path.node.children;
+    const control = t.jsxElement(
+      t.jsxOpeningElement(t.jsxIdentifier(tag), attributes, children.length === 0),
+      children.length === 0 ? null : t.jsxClosingElement(t.jsxIdentifier(tag)),
+      children
+    );
+
+    // The control keeps the original name prop
+    path.replaceWith(
+      buildFormField(
+        form,
+        [buildNameAttribute(getJsxAttribute(opening, 'name')!)],
+        t.arrowFunctionExpression([t.identifier(field)], control)
+      )
+    );
+    context.logChange('Converted <Field> to <form.Field> rendering a native input');
+    return null;
+  },
+};
+
+/**
+ * Find the render function of a <FieldArray> and the helper calls in it.
+ * Returns the reason it can't be converted.
+ */
+function planFieldArray(
+  path: NodePath<t.JSXElement>
+): { render: NodePath<t.ArrowFunctionExpression | t.FunctionExpression>; references: BagReference[] } | string {
+  const opening = path.node.openingElement;
+  const location = formatLocation(path.node);
+
+  if (!getJsxAttributeExpression(getJsxAttribute(opening, 'name'))) {
+    return `<FieldArray> without a name (${location})`;
+  }
+  if (getJsxAttribute(opening, 'component') || opening.attributes.some((attr) => t.isJSXSpreadAttribute(attr))) {
+    return `<FieldArray> with a component or spread props isn't converted for TanStack Form yet (${location})`;
+  }
+
+  const render = getRenderFunction(path);
+  if (typeof render === 'string') {
+    return render;
+  }
+  if (!render) {
+    return `<FieldArray> without a render function (${location})`;
+  }
+
+  const [helpers, ...rest] = render.get('params');
+  if (!helpers) {
+    return { render, references: [] };
+  }
+  if (rest.length > 0) {
+    return `<FieldArray> render function takes more than the helpers (${location})`;
+  }
+
+  const collected = collectBagReferences(helpers as NodePath<t.LVal>, 'the FieldArray helpers');
+  if ('reason' in collected) {
+    return collected.reason;
+  }
+
+  for (const ref of collected.references) {
+    const parent = ref.path.parentPath!;
+    if (ref.member === DESTRUCTURED || !ARRAY_HELPERS[ref.member]) {
+      return `FieldArray helper \`${ref.member}\` has no automatic TanStack Form mapping (${formatLocation(ref.path.node)})`;
+    }
+    if (!parent.isCallExpression() || parent.node.callee !== ref.path.node) {
+      return `FieldArray helper \`${ref.member}\` is only converted when called (${formatLocation(ref.path.node)})`;
+    }
+  }
+
+  return { render, references: collected.references };
+}
+
+/**
+ * <FieldArray name="friends">{(helpers) => ...}</FieldArray> →
+ * <form.Field name="friends" mode="array">{(field) => ...}</form.Field>,
+ * helpers becoming field methods (`push` → `pushValue`, ...)
+ */
+const fieldArrayConversion: PatternConversion<t.JSXElement> = {
+  getBlocker: (path) => {
+    const plan = planFieldArray(path);
+    return typeof plan === 'string' ? plan : null;
+  },
+  transform(path, context) {
+    const plan = planFieldArray(path);
+    if (typeof plan === 'string') {
+      return plan;
+    }
+
+    const form = context.findFormApi(path)?.name;
+    if (!form) {
+      return `<FieldArray> outside the component holding its form (${formatLocation(path.node)}) - TanStack Form fields need the form passed down`;
+    }
+
+    const { render, references } = plan;
+    const field = uniqueName(render.scope, 'field');
+    references.forEach((ref) => ref.path.replaceWith(access(t.identifier(field), ARRAY_HELPERS[ref.member])));
+    render.node.params = [t.identifier(field)];
+    // Fields converted inside pick their own name around the new binding
+    render.scope.crawl();
+
+    const opening = path.node.openingElement;
+    path.replaceWith(
+      buildFormField(
+        form,
+        [
+          buildNameAttribute(getJsxAttribute(opening, 'name')!),
+          t.jsxAttribute(t.jsxIdentifier('mode'), t.stringLiteral('array')),
+        ],
+        render.node
+      )
+    );
+    context.logChange('Converted <FieldArray> to <form.Field mode="array">');
+    return null;
+  },
+};
+
+/**
+ * `<form.Field ...attributes>{render}</form.Field>`
+ */
+function buildFormField(
+  form: string,
+  attributes: t.JSXAttribute[],
+  render: t.ArrowFunctionExpression | t.FunctionExpression
+): t.JSXElement {
+  const name = () => t.jsxMemberExpression(t.jsxIdentifier(form), t.jsxIdentifier('Field'));
+
+  return t.jsxElement(
+    t.jsxOpeningElement(name(), attributes),
+    t.jsxClosingElement(name()),
+    [t.jsxExpressionContainer(render)]
+  );
+}
+
+/**
+ * The `name` prop of a `<form.Field>`, for the `name` prop of a Formik field
+ */
+function buildNameAttribute(attr: t.JSXAttribute): t.JSXAttribute {
+  const name = toFieldName(getJsxAttributeExpression(attr)!);
+  return t.jsxAttribute(t.jsxIdentifier('name'), t.isStringLiteral(name) ? name : t.jsxExpressionContainer(name));
+}
+
+/**
+ * A Formik field path in TanStack Form's notation, with array indexes in
+ * brackets: `friends.0.name` → `friends[0].name`, `` `friends.${index}` `` →
+ * `` `friends[${index}]` ``. Interpolations are taken for indexes.
+ */
+function toFieldName(expression: t.Expression): t.Expression {
+  // Formik takes both notations, so start from the dotted one
+  const dotted = toFieldPath(expression);
+  const toBrackets = (value: string) => value.replace(/\.(\d+|\u0000)(?=\.|$)/g, '[$1]');
+
+  if (t.isStringLiteral(dotted)) {
+    return t.stringLiteral(toBrackets(dotted.value));
+  }
+
+  if (t.isTemplateLiteral(dotted)) {
+    const quasis = toBrackets(dotted.quasis.map((quasi) => quasi.value.raw).join('\u0000')).split('\u0000');
+    return t.templateLiteral(
+      quasis.map((raw, index) => t.templateElement({ raw, cooked: raw }, index === quasis.length - 1)),
+      dotted.expressions.map((part) => t.cloneNode(part, true, true))
+    );
+  }
+
+  return t.cloneNode(expression, true, true);
+}
+
+/**
+ * `fieldMeta.email?.errors[0]` or `fieldMeta.email?.isTouched`
+ */
+function buildMetaLookup(fieldMeta: string, field: string, key: string): t.Expression {
+  const meta = t.isValidIdentifier(field)
+    ? t.memberExpression(t.identifier(fieldMeta), t.identifier(field))
+    : t.memberExpression(t.identifier(fieldMeta), t.stringLiteral(field), true);
+  const entry = t.optionalMemberExpression(meta, t.identifier(key), false, true);
+
+  return key === 'errors' ? t.optionalMemberExpression(entry, t.numericLiteral(0), true, false) : entry;
+}
+
+/**
+ * `form.setFieldMeta(field, (meta) => ({ ...meta, isTouched: touched }))`
+ */
+function buildSetTouched(form: string, field: t.Expression, touched: t.Expression): t.CallExpression {
+  return callForm(form, 'setFieldMeta', [
+    field,
+    t.arrowFunctionExpression(
+      [t.identifier('meta')],
+      t.objectExpression([
+        t.spreadElement(t.identifier('meta')),
+        t.objectProperty(t.identifier('isTouched'), touched),
+      ])
+    ),
+  ]);
+}
+
+/**
+ * What a change event of an input carries, the way Formik reads it:
+ * `checked` for checkboxes, a number for number inputs
+ */
+function getEventValue(element: t.JSXOpeningElement): string {
+  const type = getJsxStringAttribute(element, 'type');
+  return type === 'checkbox' ? 'checked' : type === 'number' || type === 'range' ? 'valueAsNumber' : 'value';
+}
+
+/**
+ * Whether a path is the value of a JSX prop (`onSubmit={formik.handleSubmit}`)
+ */
+function isEventHandlerProp(path: NodePath): boolean {
+  return Boolean(path.parentPath?.isJSXExpressionContainer() && path.parentPath.parentPath?.isJSXAttribute());
+}
+
+/**
+ * A name for a new binding in a component, free where it's used. Names
+ * bound by `replaced` (which goes away) may be reused.
+ */
+function pickName(
+  component: NodePath<t.Function>,
+  base: string,
+  taken: Set<string>,
+  usages: NodePath[],
+  replaced: NodePath
+): string {
+  const isFree = (name: string) =>
+    !taken.has(name) &&
+    !component.scope.hasGlobal(name) &&
+    [component, ...usages].every((usage) => {
+      const binding = usage.scope.getBinding(name);
+      return !binding || binding.path === replaced;
+    });
+
+  let name = base;
+  for (let counter = 2; !isFree(name); counter++) {
+    name = `${base}${counter}`;
+  }
+
+  taken.add(name);
+  return name;
+}
+
+function access(object: t.Expression, property: string): t.MemberExpression {
+  return t.memberExpression(object, t.identifier(property));
+}
+
+function callForm(form: string, method: string, args: t.Expression[] = []): t.CallExpression {
+  return t.callExpression(access(t.identifier(form), method), args);
+}
+
+function jsxAttribute(name: string, value: t.Expression): t.JSXAttribute {
+  return t.jsxAttribute(t.jsxIdentifier(name), t.jsxExpressionContainer(value));
+}
+
+export const tanstackFormTarget: MigrationTarget = {
+  name: 'tanstack-form',
+  label: 'TanStack Form',
+  package: PACKAGE,
+  dependencies: [PACKAGE],
+  conversions: {
+    useFormik: useFormikConversion,
+    FieldArray: fieldArrayConversion,
+    Field: fieldConversion,
+  },
+  getImportSource: () => PACKAGE,
+};
@@ -0,0 +1,319 @@
+import type { NodePath } from '@babel/traverse';
+import * as t from '@babel/types';
+import { collectBagReferences } from './formik-bag';
+import { formatLocation, getPropertyName, toFieldPath, uniqueName } from './utils';
+
+/**
+ * `field` members shared by Formik's useField and RHF's useController
+ */
+const FIELD_MEMBERS = ['name', 'value', 'onChange', 'onBlur'];
+
+/**
+ * What the caller needs to know about a converted `useField()`
+ */
+export interface UseFieldConversion {
+  imports: string[];
+  warnings: string[];
+}
+
+/**
+ * Builds the replacement for a single meta/helpers usage
+ */
+type ControllerRewrite = (names: ControllerNames) => void;
+
+/**
+ * How converted usages reach the useController result
+ */
+interface ControllerNames {
+  field: (member: string) => t.Expression;
+  fieldState: () => t.Expression;
+}
+
+/**
+ * Check whether a `useField()` call can be converted into `useController()`.
+ * Returns the reason it can't, or null when it's safe.
+ */
+export function getUseFieldBlocker(path: NodePath<t.CallExpression>): string | null {
+  const location = formatLocation(path.node);
+  const declarator = path.parentPath;
+
+  if (
+    !declarator.isVariableDeclarator() ||
+    declarator.node.init !== path.node ||
+    !t.isArrayPattern(declarator.node.id)
+  ) {
+    return `useField() result is not destructured into [field, meta, helpers] (${location})`;
+  }
+
+  const elements = declarator.node.id.elements;
+  if (elements.length > 3 || elements.some((element) => element && !t.isIdentifier(element) && !t.isObjectPattern(element))) {
+    return `Unsupported destructuring of the useField() result (${location})`;
+  }
+
+  const name = getFieldName(path);
+  if (typeof name === 'string') {
+    return name;
+  }
+
+  const plan = planControllerRewrites(declarator as NodePath<t.VariableDeclarator>);
+  return typeof plan === 'string' ? plan : null;
+}
+
+/**
+ * Convert `const [field, meta, helpers] = useField(props)` into
+ * `const { field, fieldState } = useController({ name, control })`.
+ * Returns the reason when it can't be converted.
+ */
+export function convertUseField(
+  path: NodePath<t.CallExpression>,
+  control: t.Expression,
+  takenNames: (component: t.Node) => Set<string>
+): UseFieldConversion | string {
+  const blocker = getUseFieldBlocker(path);
+  if (blocker) {
+    return blocker;
+  }
+
+  const declarator = path.parentPath as NodePath<t.VariableDeclarator>;
+  const [fieldElement] = (declarator.node.id as t.ArrayPattern).elements as Array<t.Identifier | t.ObjectPattern | null>;
+  const name = getFieldName(path) as t.Expression;
+  const rewrites = planControllerRewrites(declarator) as ControllerRewrite[];
+  const warnings: string[] = [];
+
+  // useField(props) → useController({ name: props.name }): nothing else carries over
+  const [arg] = path.node.arguments;
+  if (t.isIdentifier(arg) && t.isMemberExpression(name)) {
+    warnings.push(
+      `\`useField(${arg.name})\` became \`useController({ name: ${arg.name}.name })\`: other field options in \`${arg.name}\` (\`type\`, \`validate\`, \`value\`, ...) are dropped (${formatLocation(path.node)})`
+    );
+  }
+  const taken = takenNames(path.getFunctionParent()!.node);
+
+  // { field, fieldState } - each added only when something reads it
+  const pattern = t.objectPattern([]);
+  let field = fieldElement;
+  let fieldState: t.Identifier | null = null;
+
+  if (field) {
+    pattern.properties.push(
+      t.objectProperty(t.identifier('field'), field, false, t.isIdentifier(field, { name: 'field' }))
+    );
+  }
+
+  const names: ControllerNames = {
+    field: (member) => {
+      if (!field) {
+        field = t.identifier(uniqueName(path.scope, 'field', taken));
+        pattern.properties.unshift(
+          t.objectProperty(t.identifier('field'), field, false, field.name === 'field')
+        );
+      }
+      if (t.isIdentifier(field)) {
+        return t.memberExpression(t.identifier(field.name), t.identifier(member));
+      }
+
+      const existing = field.properties.find(
+        (prop): prop is t.ObjectProperty => getPropertyName(prop) === member && t.isObjectProperty(prop)
+      );
+      if (existing) {
+        return t.identifier((existing.value as t.Identifier).name);
+      }
+
+      const local = uniqueName(path.scope, member, taken);
+      field.properties.push(t.objectProperty(t.identifier(member), t.identifier(local), false, local === member));
+      return t.identifier(local);
+    },
+    fieldState: () => {
+      if (!fieldState) {
+        fieldState = t.identifier(uniqueName(path.scope, 'fieldState', taken));
+        pattern.properties.push(
+          t.objectProperty(t.identifier('fieldState'), fieldState, false, fieldState.name === 'fieldState')
+        );
+      }
+      return t.identifier(fieldState.name);
+    },
+  };
+
+  rewrites.forEach((rewrite) => rewrite(names));
+
+  if (pattern.properties.length === 0) {
+    names.field('value');
+  }
+
+  declarator.node.id = pattern;
+  path.node.callee = t.identifier('useController');
+  path.node.arguments = [
+    t.objectExpression([
+      t.objectProperty(t.identifier('name'), name, false, t.isIdentifier(name, { name: 'name' })),
+      t.objectProperty(t.identifier('control'), control, false, t.isIdentifier(control, { name: 'control' })),
+    ]),
+  ];
+
+  return { imports: ['useController'], warnings };
+}
+
+/**
+ * The field name a `useField()` call binds: `useField('email')`,
+ * `useField({ name })` or `useField(props)` → `props.name`.
+ * Returns the reason when it can't be determined.
+ */
+function getFieldName(path: NodePath<t.CallExpression>): t.Expression | string {
+  const location = formatLocation(path.node);
+  const [arg] = path.node.arguments;
+
+  if (path.node.arguments.length !== 1) {
+    return `useField() is called with ${path.node.arguments.length} arguments (${location})`;
+  }
+
+  if (t.isStringLiteral(arg) || t.isTemplateLiteral(arg) || t.isMemberExpression(arg)) {
+    return toFieldPath(arg);
+  }
+
+  if (t.isObjectExpression(arg)) {
+    const keys = arg.properties.map((prop) => getPropertyName(prop));
+    const nameProp = arg.properties.find((prop) => getPropertyName(prop) === 'name');
+
+    if (keys.some((key) => key !== 'name') || !t.isObjectProperty(nameProp) || !t.isExpression(nameProp.value)) {
+      return `useField() options besides \`name\` need manual review (${location})`;
+    }
+    return toFieldPath(nameProp.value);
+  }
+
+  if (t.isIdentifier(arg)) {
+    const binding = path.scope.getBinding(arg.name);
+
+    // const [field] = useField(props): the props object carries the name
+    if (binding?.kind === 'param' && binding.path.isIdentifier()) {
+      return t.memberExpression(t.identifier(arg.name), t.identifier('name'));
+    }
+
+    // ({ name, ...props }) => useField(name), or a name held in a constant
+    let destructuredName = false;
+    if (binding) {
+      t.traverseFast(binding.path.node, (node) => {
+        if (t.isObjectProperty(node) && node.value === binding.identifier && getPropertyName(node) === 'name') {
+          destructuredName = true;
+        }
+      });
+    }
+    if (destructuredName || t.isStringLiteral((binding?.path.node as t.VariableDeclarator | undefined)?.init)) {
+      return t.identifier(arg.name);
+    }
+  }
+
+  return `Cannot tell which field useField() binds (${location})`;
+}
+
+/**
+ * Plan the rewrite of every meta/helpers usage onto useController's
+ * `field`/`fieldState`. Returns the reason when a usage has no mapping.
+ */
+function planControllerRewrites(declarator: NodePath<t.VariableDeclarator>): ControllerRewrite[] | string {
+  const [fieldElement, metaElement, helpersElement] = (declarator.get('id') as NodePath<t.ArrayPattern>).get('elements');
+  const rewrites: ControllerRewrite[] = [];
+
+  if (fieldElement?.node) {
+    const problem = checkFieldUsage(fieldElement as NodePath<t.LVal>);
+    if (problem) {
+      return problem;
+    }
+  }
+
+  if (metaElement?.node) {
+    const collected = collectBagReferences(metaElement as NodePath<t.LVal>, 'useField meta');
+    if ('reason' in collected) {
+      return collected.reason;
+    }
+
+    for (const { member, path } of collected.references) {
+      if (member === 'error') {
+        // meta.error → fieldState.error?.message
+        rewrites.push(({ fieldState }) => {
+          path.replaceWith(
+            t.optionalMemberExpression(
+              t.memberExpression(fieldState(), t.identifier('error')),
+              t.identifier('message'),
+              false,
+              true
+            )
+          );
+        });
+      } else if (member === 'touched') {
+        rewrites.push(({ fieldState }) => {
+          path.replaceWith(t.memberExpression(fieldState(), t.identifier('isTouched')));
+        });
+      } else if (member === 'value') {
+        rewrites.push(({ field }) => {
+          path.replaceWith(field('value'));
+        });
+      } else {
+        return `useField meta \`${member}\` has no useController mapping (${formatLocation(path.node)})`;
+      }
+    }
+  }
+
+  if (helpersElement?.node) {
+    const collected = collectBagReferences(helpersElement as NodePath<t.LVal>, 'useField helpers');
+    if ('reason' in collected) {
+      return collected.reason;
+    }
+
+    for (const { member, path } of collected.references) {
+      const location = formatLocation(path.node);
+      const parent = path.parentPath!;
+      const call = parent.isCallExpression() && parent.node.callee === path.node ? parent : null;
+
+      if (!call) {
+        return `useField helper \`${member}\` is passed around instead of called (${location})`;
+      }
+
+      if (member === 'setValue') {
+        // helpers.setValue(value) → field.onChange(value)
+        rewrites.push(({ field }) => {
+          call.replaceWith(t.callExpression(field('onChange'), call.node.arguments.slice(0, 1)));
+        });
+      } else if (member === 'setTouched' && t.isBooleanLiteral(call.node.arguments[0], { value: true })) {
+        // helpers.setTouched(true) → field.onBlur()
+        rewrites.push(({ field }) => {
+          call.replaceWith(t.callExpression(field('onBlur'), []));
+        });
+      } else {
+        return `useField helper \`${member}\` has no useController mapping (${location})`;
+      }
+    }
+  }
+
+  return rewrites;
+}
+
+/**
+ * `field` stays as-is, but only the members useController's field shares
+ * with Formik's can be read from it
+ */
+function checkFieldUsage(fieldPath: NodePath<t.LVal>): string | null {
+  if (fieldPath.isObjectPattern()) {
+    const unsupported = fieldPath.node.properties.find((prop) => !FIELD_MEMBERS.includes(getPropertyName(prop) ?? ''));
+    return unsupported
+      ? `useField field \`${getPropertyName(unsupported) ?? '...'}\` has no useController equivalent (${formatLocation(unsupported)})`
+      : null;
+  }
+
+  if (!fieldPath.isIdentifier()) {
+    return `Unsupported binding of useField field (${formatLocation(fieldPath.node)})`;
+  }
+
+  for (const reference of fieldPath.scope.getBinding(fieldPath.node.name)?.referencePaths ?? []) {
+    const parent = reference.parent;
+    if (
+      t.isMemberExpression(parent) &&
+      parent.object === reference.node &&
+      t.isIdentifier(parent.property) &&
+      !parent.computed &&
+      !FIELD_MEMBERS.includes(parent.property.name)
+    ) {
+      return `useField field \`${parent.property.name}\` has no useController equivalent (${formatLocation(parent)})`;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,171 @@
+import type { NodePath } from '@babel/traverse';
+import * as t from '@babel/types';
+import { FormApi } from './form-api';
+import { planBagRewrites } from './formik-bag';
+import { buildUseFormOptions, getOptionPath, getUseFormOptionsBlocker, readFlag, readFormikConfig } from './form-options';
+import { planSubmitHelperRewrites, typeSubmitValues } from './submit-handler';
+import { formatLocation, resolveFunction, uniqueName } from './utils';
+
+/**
+ * What the caller needs to know about a converted `useFormik()`
+ */
+export interface UseFormikConversion {
+  component: NodePath<t.Function>;
+  api: FormApi;
+  imports: string[];
+}
+
+/**
+ * Check whether every usage of a `useFormik()` result can be mapped onto
+ * `useForm()`. Returns the reason it can't, or null when it's safe.
+ */
+export function getUseFormikBlocker(path: NodePath<t.CallExpression>): string | null {
+  const location = formatLocation(path.node);
+  const declarator = path.parentPath;
+
+  if (!declarator.isVariableDeclarator() || declarator.node.init !== path.node) {
+    return `useFormik() result is not assigned to a variable (${location})`;
+  }
+
+  const component = path.getFunctionParent();
+  if (!component) {
+    return `useFormik() is called outside a function (${location})`;
+  }
+
+  const options = path.node.arguments[0];
+  const config = t.isObjectExpression(options) ? readFormikConfig(options) : null;
+  if (!config) {
+    return `useFormik() options use spreads or computed keys (${location})`;
+  }
+
+  const optionsBlocker = getUseFormOptionsBlocker(config, location);
+  if (optionsBlocker) {
+    return optionsBlocker;
+  }
+
+  const api = FormApi.object('form', component.scope);
+  api.onSubmit = config.onSubmit ?? null;
+
+  // The Formik helpers passed to onSubmit must map onto the form too
+  const handler = resolveFunction(getOptionPath(path.get('arguments.0') as NodePath<t.ObjectExpression>, 'onSubmit'));
+  const helpers = planSubmitHelperRewrites(handler, api, component.node);
+  if (helpers.reason) {
+    return helpers.reason;
+  }
+
+  return planBagRewrites(declarator.get('id') as NodePath<t.LVal>, api, component.node).reason ?? null;
+}
+
+/**
+ * Set up the RHF API for a binding that held a Formik bag
+ * (`const formik = ...` or `const { values, errors } = ...`). A
+ * destructuring is rebuilt from scratch: `pattern` must replace it once
+ * the usages are rewritten.
+ */
+export function bindFormApi(
+  idPath: NodePath<t.LVal>,
+  component: NodePath<t.Function>,
+  taken: Set<string>
+): { api: FormApi; pattern: t.ObjectPattern | null } {
+  if (idPath.isIdentifier()) {
+    // `formik` would be a misleading name for the RHF form object
+    if (idPath.node.name === 'formik') {
+      component.scope.rename('formik', uniqueName(component.scope, 'form', taken));
+    }
+    return { api: FormApi.object(idPath.node.name, component.scope, taken), pattern: null };
+  }
+
+  // Rebuild the destructuring with the RHF members the usages need;
+  // the Formik names it held are free to reuse
+  const released = new Set(
+    (idPath.node as t.ObjectPattern).properties
+      .filter((prop): prop is t.ObjectProperty => t.isObjectProperty(prop) && t.isIdentifier(prop.value))
+      .map((prop) => (prop.value as t.Identifier).name)
+  );
+  const pattern = t.objectPattern([]);
+  return { api: FormApi.pattern(pattern, component.scope, taken, released), pattern };
+}
+
+/**
+ * Convert `const formik = useFormik({...})` into `useForm()`, rewriting every
+ * usage of the result. Returns the reason when it can't be converted.
+ * `typescript` files get types for what loses them (the submit handler).
+ */
+export function convertUseFormik(
+  path: NodePath<t.CallExpression>,
+  takenNames: (component: t.Node) => Set<string>,
+  typescript = false
+): UseFormikConversion | string {
+  const blocker = getUseFormikBlocker(path);
+  if (blocker) {
+    return blocker;
+  }
+
+  const declarator = path.parentPath as NodePath<t.VariableDeclarator>;
+  const declaration = declarator.parentPath as NodePath<t.VariableDeclaration>;
+  const component = path.getFunctionParent()!;
+  const taken = takenNames(component.node);
+  const optionsPath = path.get('arguments.0') as NodePath<t.ObjectExpression>;
+  const idPath = declarator.get('id') as NodePath<t.LVal>;
+
+  const config = readFormikConfig(optionsPath.node)!;
+  const { api, pattern } = bindFormApi(idPath, component, taken);
+  api.validateOnChange = readFlag(config, 'validateOnChange', true);
+  api.validateOnBlur = readFlag(config, 'validateOnBlur', true);
+
+  // (values, { setSubmitting, resetForm }) => ... → (values) => ...
+  const handler = resolveFunction(getOptionPath(optionsPath, 'onSubmit'));
+  const helpers = planSubmitHelperRewrites(handler, api, component.node);
+  if (helpers.reason) {
+    return helpers.reason;
+  }
+  helpers.rewrites!.forEach((rewrite) => rewrite());
+
+  const initialValues = config.initialValues ?? null;
+  const hoisted: t.Statement[] = [];
+  if (config.onSubmit) {
+    if (t.isIdentifier(config.onSubmit)) {
+      api.onSubmit = config.onSubmit;
+    } else {
+      api.onSubmit = t.identifier(uniqueName(component.scope, 'onSubmit', taken));
+
+      // useFormik typed the handler's values, a const of its own doesn't
+      const typeArgument = path.node.typeParameters?.params[0] ?? null;
+      if (typescript || typeArgument) {
+        hoisted.push(...typeSubmitValues(config.onSubmit, config, typeArgument, component.scope, taken));
+      }
+      hoisted.push(
+        t.variableDeclaration('const', [
+          t.variableDeclarator(t.cloneNode(api.onSubmit as t.Identifier), config.onSubmit),
+        ])
+      );
+    }
+  }
+
+  const plan = planBagRewrites(idPath, api, component.node);
+  if (plan.reason) {
+    return plan.reason;
+  }
+  plan.rewrites!.forEach((rewrite) => rewrite());
+
+  if (pattern) {
+    declarator.node.id = pattern;
+  }
+
+  const options = buildUseFormOptions(config);
+  api.resolver = Boolean(config.validationSchema || config.validate);
+  api.defaultValues = initialValues;
+  path.node.callee = t.identifier('useForm');
+  path.node.arguments = options.properties.length > 0 ? [t.objectExpression(options.properties)] : [];
+
+  // The submit handler moves out of the hook options, ahead of the hook
+  if (hoisted.length > 0) {
+    declaration.insertBefore(hoisted);
+  }
+
+  return {
+    component,
+    api,
+    imports: ['useForm', ...(api.provided ? ['FormProvider'] : []), ...options.imports],
+  };
+}
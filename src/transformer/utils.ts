@@ -0,0 +1,589 @@
+import type { NodePath, Scope } from '@babel/traverse';
+import * as t from '@babel/types';
+import { attachComment } from './printer';
+
+/**
+ * Formik components that the transformer rewrites in place
+ */
+export const FORMIK_COMPONENTS = ['Formik', 'Form', 'Field', 'FastField', 'FieldArray', 'ErrorMessage'];
+
+/**
+ * Get the name of a JSX element (`Field`, `Foo.Bar`, ...)
+ */
+export function getJsxName(name: t.JSXOpeningElement['name']): string {
+  if (t.isJSXIdentifier(name)) {
+    return name.name;
+  }
+  if (t.isJSXMemberExpression(name)) {
+    return `${getJsxName(name.object)}.${name.property.name}`;
+  }
+  return `${name.namespace.name}:${name.name.name}`;
+}
+
+/**
+ * Find a JSX attribute by name
+ */
+export function getJsxAttribute(
+  element: t.JSXOpeningElement,
+  name: string
+): t.JSXAttribute | undefined {
+  return element.attributes.find(
+    (attr): attr is t.JSXAttribute =>
+      t.isJSXAttribute(attr) && t.isJSXIdentifier(attr.name) && attr.name.name === name
+  );
+}
+
+/**
+ * Get the expression an attribute carries (`name="x"` or `name={x}`)
+ */
+export function getJsxAttributeExpression(attr: t.JSXAttribute | undefined): t.Expression | null {
+  if (!attr || !attr.value) {
+    return null;
+  }
+  if (t.isStringLiteral(attr.value)) {
+    return attr.value;
+  }
+  if (t.isJSXExpressionContainer(attr.value) && t.isExpression(attr.value.expression)) {
+    return attr.value.expression;
+  }
+  return null;
+}
+
+/**
+ * Get a static string value of an attribute (`name="x"` or `name={'x'}`)
+ */
+export function getJsxStringAttribute(element: t.JSXOpeningElement, name: string): string | null {
+  const value = getJsxAttributeExpression(getJsxAttribute(element, name));
+  if (t.isStringLiteral(value)) {
+    return value.value;
+  }
+  if (t.isTemplateLiteral(value) && value.expressions.length === 0) {
+    return value.quasis[0].value.cooked ?? null;
+  }
+  return null;
+}
+
+/**
+ * Names of all plain attributes on a JSX element
+ */
+export function getJsxAttributeNames(element: t.JSXOpeningElement): string[] {
+  return element.attributes
+    .filter((attr): attr is t.JSXAttribute => t.isJSXAttribute(attr))
+    .map((attr) => (t.isJSXIdentifier(attr.name) ? attr.name.name : ''));
+}
+
+/**
+ * Get the key name of an object property (`foo: 1`, `'foo': 1`)
+ */
+export function getPropertyName(prop: t.Node): string | null {
+  if (!t.isObjectProperty(prop) && !t.isObjectMethod(prop)) {
+    return null;
+  }
+  if (prop.computed) {
+    return null;
+  }
+  if (t.isIdentifier(prop.key)) {
+    return prop.key.name;
+  }
+  if (t.isStringLiteral(prop.key)) {
+    return prop.key.value;
+  }
+  return null;
+}
+
+/**
+ * Human readable location for warnings and reasons
+ */
+export function formatLocation(node: t.Node): string {
+  return node.loc ? `line ${node.loc.start.line}:${node.loc.start.column}` : 'unknown location';
+}
+
+/**
+ * Pick a name that is not bound in the given scope (`onSubmit`, `onSubmit2`, ...)
+ */
+export function uniqueName(scope: Scope, base: string, taken: Set<string> = new Set()): string {
+  let name = base;
+  let counter = 2;
+
+  while (scope.hasBinding(name) || scope.hasGlobal(name) || taken.has(name)) {
+    name = `${base}${counter++}`;
+  }
+
+  taken.add(name);
+  return name;
+}
+
+/**
+ * Whether a file is TypeScript, so the converted code may add type annotations
+ */
+export function isTypeScriptFile(filePath: string): boolean {
+  return /\.tsx?$/.test(filePath);
+}
+
+/**
+ * Check whether `name` refers to a named import from formik (`connect` is
+ * a common name in other libraries too)
+ */
+export function isFormikImport(path: NodePath, name: string): boolean {
+  const binding = path.scope.getBinding(name);
+
+  return (
+    binding?.kind === 'module' &&
+    t.isImportDeclaration(binding.path.parent) &&
+    binding.path.parent.source.value === 'formik'
+  );
+}
+
+/**
+ * Check whether a function looks like a React function component or a
+ * custom hook (so hooks can be hoisted into it)
+ */
+export function isComponentFunction(fnPath: NodePath<t.Function>): boolean {
+  if (t.isClassMethod(fnPath.node) || t.isObjectMethod(fnPath.node)) {
+    return false;
+  }
+
+  const isComponentName = (name: string | undefined) => !!name && /^([A-Z]|use[A-Z0-9])/.test(name);
+
+  if (t.isFunctionDeclaration(fnPath.node)) {
+    return isComponentName(fnPath.node.id?.name) || t.isExportDefaultDeclaration(fnPath.parent);
+  }
+
+  let current: NodePath = fnPath;
+
+  // Unwrap memo(...), forwardRef(...), React.memo(...)
+  while (t.isCallExpression(current.parent)) {
+    const callee = current.parent.callee;
+    const calleeName = t.isIdentifier(callee)
+      ? callee.name
+      : t.isMemberExpression(callee) && t.isIdentifier(callee.property)
+        ? callee.property.name
+        : '';
+
+    if (!['memo', 'forwardRef', 'observer'].includes(calleeName)) {
+      return false;
+    }
+    current = current.parentPath!;
+  }
+
+  if (t.isVariableDeclarator(current.parent) && t.isIdentifier(current.parent.id)) {
+    return isComponentName(current.parent.id.name);
+  }
+
+  return t.isExportDefaultDeclaration(current.parent);
+}
+
+/**
+ * Check whether a function is the render prop of a `<Formik>` element,
+ * which the transformer inlines into the enclosing component
+ */
+export function isFormikRenderFunction(fnPath: NodePath<t.Function>): boolean {
+  const container = fnPath.parentPath;
+  if (!container?.isJSXExpressionContainer()) {
+    return false;
+  }
+
+  const attr = container.parent;
+  const owner = t.isJSXAttribute(attr) && t.isJSXIdentifier(attr.name, { name: 'render' })
+    ? container.parentPath?.parentPath?.parent
+    : attr;
+
+  return t.isJSXElement(owner) && getJsxName(owner.openingElement.name) === 'Formik';
+}
+
+/**
+ * Find the function component that encloses a path
+ */
+export function findEnclosingComponent(path: NodePath): NodePath<t.Function> | null {
+  let fnPath = path.getFunctionParent();
+
+  while (fnPath && isFormikRenderFunction(fnPath)) {
+    fnPath = fnPath.getFunctionParent();
+  }
+
+  if (!fnPath || !isComponentFunction(fnPath)) {
+    return null;
+  }
+
+  return fnPath;
+}
+
+/**
+ * Find the statement in a component body that contains a path
+ */
+export function findBodyStatement(
+  componentPath: NodePath<t.Function>,
+  path: NodePath
+): NodePath<t.Statement> | null {
+  const statement = path.findParent(
+    (parent) => parent.isStatement() && parent.parentPath?.parent === componentPath.node
+  );
+
+  return statement ? (statement as NodePath<t.Statement>) : null;
+}
+
+/**
+ * Check whether a statement can return early (outside nested functions),
+ * which would make a hook hoisted after it conditional
+ */
+export function containsReturn(statement: NodePath<t.Statement>): boolean {
+  if (statement.isReturnStatement()) {
+    return true;
+  }
+
+  let found = false;
+  statement.traverse({
+    ReturnStatement(returnPath) {
+      found = true;
+      returnPath.stop();
+    },
+    Function(fnPath) {
+      fnPath.skip();
+    },
+  });
+
+  return found;
+}
+
+/**
+ * Get the render function passed as children or `render` prop.
+ * Returns null when children are plain elements, or a reason when
+ * the render prop isn't an inline function.
+ */
+export function getRenderFunction(
+  path: NodePath<t.JSXElement>
+): NodePath<t.ArrowFunctionExpression | t.FunctionExpression> | null | string {
+  const location = formatLocation(path.node);
+  const name = getJsxName(path.node.openingElement.name);
+  const renderAttrIndex = path.node.openingElement.attributes.findIndex(
+    (attr) => t.isJSXAttribute(attr) && attr.name.name === 'render'
+  );
+
+  if (renderAttrIndex !== -1) {
+    const value = path.get(`openingElement.attributes.${renderAttrIndex}.value.expression`) as NodePath;
+    if (value.isArrowFunctionExpression() || value.isFunctionExpression()) {
+      return value;
+    }
+    return `<${name} render> is not an inline function (${location})`;
+  }
+
+  const children = path.get('children').filter(
+    (child) => !(child.isJSXText() && child.node.value.trim() === '')
+  );
+  const fnChild = children.find((child) => child.isJSXExpressionContainer());
+
+  if (!fnChild) {
+    return null;
+  }
+
+  const expression = fnChild.get('expression') as NodePath;
+  if (children.length > 1 || !(expression.isArrowFunctionExpression() || expression.isFunctionExpression())) {
+    return `<${name}> children mix a render function with other content (${location})`;
+  }
+
+  return expression;
+}
+
+/**
+ * The expression a render function returns (expression body or single return)
+ */
+export function getRenderedExpression(fn: t.ArrowFunctionExpression | t.FunctionExpression): t.Expression | null {
+  if (t.isExpression(fn.body)) {
+    return fn.body;
+  }
+
+  const [statement] = fn.body.body;
+  if (fn.body.body.length === 1 && t.isReturnStatement(statement) && statement.argument) {
+    return statement.argument;
+  }
+
+  return null;
+}
+
+/**
+ * Resolve the function behind a value: an inline function, or a function
+ * declared in the same file and referenced by name (`onSubmit={save}`)
+ */
+export function resolveFunction(value: NodePath | null): NodePath<t.Function> | null {
+  if (!value) {
+    return null;
+  }
+
+  if (value.isFunction()) {
+    return value;
+  }
+
+  if (value.isIdentifier()) {
+    const binding = value.scope.getBinding(value.node.name);
+    const declaration = binding?.path;
+
+    if (declaration?.isFunctionDeclaration()) {
+      return declaration;
+    }
+    if (declaration?.isVariableDeclarator()) {
+      const init = declaration.get('init');
+      if (init.isArrowFunctionExpression() || init.isFunctionExpression()) {
+        return init;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Resolve a value to the object literal behind it: an inline one, or one
+ * assigned to a const in the same file (`initialValues={initialValues}`)
+ */
+export function resolveObjectLiteral(scope: Scope, value: t.Expression | null): t.ObjectExpression | null {
+  if (t.isIdentifier(value)) {
+    const declaration = scope.getBinding(value.name)?.path;
+    if (declaration?.isVariableDeclarator() && declaration.parentPath.isVariableDeclaration({ kind: 'const' })) {
+      value = declaration.node.init ?? null;
+    }
+  }
+
+  return t.isObjectExpression(value) ? value : null;
+}
+
+/**
+ * Find the statement a hook for `path` must be inserted before.
+ * Returns null for expression-bodied arrow components (see insertHoisted),
+ * or the reason the hook can't be hoisted.
+ */
+export function findHookInsertionPoint(
+  component: NodePath<t.Function>,
+  path: NodePath
+): NodePath<t.Statement> | null | string {
+  const location = formatLocation(path.node);
+  const name = path.isJSXElement() ? `<${getJsxName(path.node.openingElement.name)}>` : 'Hook';
+
+  if (!t.isBlockStatement(component.node.body)) {
+    return null;
+  }
+
+  const statement = findBodyStatement(component, path);
+  if (!statement) {
+    return `Cannot find where to hoist the hook for ${name} (${location})`;
+  }
+
+  const earlierReturn = statement
+    .getAllPrevSiblings()
+    .some((sibling) => containsReturn(sibling as NodePath<t.Statement>));
+  if (earlierReturn) {
+    return `${name} is rendered after an early return; hoisting a hook would break the rules of hooks (${location})`;
+  }
+
+  return statement;
+}
+
+/**
+ * Insert hoisted hook declarations before `statement`, or turn an
+ * expression-bodied arrow component into a block when there is none
+ */
+export function insertHoisted(
+  component: NodePath<t.Function>,
+  statement: NodePath<t.Statement> | null,
+  hoisted: t.Statement[]
+) {
+  if (statement) {
+    statement.insertBefore(hoisted);
+    return;
+  }
+
+  const body = component.node.body as t.Expression;
+  component.node.body = t.blockStatement([...hoisted, t.returnStatement(body)]);
+}
+
+/**
+ * Replace a JSX element with what it rendered
+ */
+export function replaceJsxElement(path: NodePath<t.JSXElement>, rendered: t.Expression | null) {
+  if (!rendered) {
+    path.replaceWith(t.nullLiteral());
+  } else if (path.parentPath.isJSXElement() || path.parentPath.isJSXFragment()) {
+    path.replaceWith(toJsxChild(rendered));
+  } else {
+    path.replaceWith(rendered);
+  }
+}
+
+/**
+ * Check whether `path` sits inside a function nested below `boundary`
+ * (event handlers, effects, callbacks) rather than in render code
+ */
+export function isInsideCallback(path: NodePath, boundary: t.Node): boolean {
+  let current = path.parentPath;
+
+  while (current && current.node !== boundary) {
+    if (current.isFunction() && !isRenderTimeFunction(current)) {
+      return true;
+    }
+    current = current.parentPath;
+  }
+
+  return false;
+}
+
+/**
+ * Functions that run while rendering: render props and list iteration
+ */
+function isRenderTimeFunction(fnPath: NodePath<t.Function>): boolean {
+  const parent = fnPath.parent;
+
+  if (t.isJSXExpressionContainer(parent)) {
+    const attr = fnPath.parentPath!.parent;
+    return !(t.isJSXAttribute(attr) && t.isJSXIdentifier(attr.name) && /^on[A-Z]/.test(attr.name.name));
+  }
+
+  if (t.isCallExpression(parent) && parent.arguments.includes(fnPath.node as t.Expression)) {
+    const callee = parent.callee;
+    return (
+      t.isMemberExpression(callee) &&
+      t.isIdentifier(callee.property) &&
+      ['map', 'filter', 'some', 'every', 'find', 'flatMap', 'reduce'].includes(callee.property.name)
+    );
+  }
+
+  return false;
+}
+
+/**
+ * Check whether a JSX subtree renders custom components, which may read
+ * form state through context
+ */
+export function rendersCustomComponents(node: t.Node): boolean {
+  let found = false;
+
+  t.traverseFast(node, (child) => {
+    if (found || !t.isJSXOpeningElement(child)) {
+      return;
+    }
+
+    const name = getJsxName(child.name);
+    if (/^[A-Z]/.test(name) && !FORMIK_COMPONENTS.includes(name) && name !== 'FormProvider') {
+      found = true;
+    }
+  });
+
+  return found;
+}
+
+/**
+ * Convert a Formik field path to RHF dot notation
+ * (`items[0].name` → `items.0.name`), keeping dynamic parts as they are
+ */
+export function toFieldPath(expression: t.Expression): t.Expression {
+  const toDots = (value: string) => value.replace(/\[([^\]\u0000]*|\u0000)\]/g, '.$1');
+
+  if (t.isStringLiteral(expression)) {
+    return t.stringLiteral(toDots(expression.value));
+  }
+
+  if (t.isTemplateLiteral(expression)) {
+    const joined = toDots(expression.quasis.map((quasi) => quasi.value.raw).join('\u0000'));
+    const quasis = joined.split('\u0000');
+
+    return t.templateLiteral(
+      quasis.map((raw, index) => t.templateElement({ raw, cooked: raw }, index === quasis.length - 1)),
+      expression.expressions
+    );
+  }
+
+  return expression;
+}
+
+/**
+ * A segment of a field path, as a member access property
+ */
+export interface PathSegment {
+  property: t.Expression;
+  computed: boolean;
+}
+
+/**
+ * Split a field path (`items[0].name`, `` `items.${i}.name` ``) into member
+ * access segments. Returns null when a segment isn't static or a whole
+ * interpolation.
+ */
+export function parseFieldPath(expression: t.Expression): PathSegment[] | null {
+  const path = toFieldPath(expression);
+  let source: string;
+  let expressions: t.Expression[] = [];
+
+  if (t.isStringLiteral(path)) {
+    source = path.value;
+  } else if (t.isTemplateLiteral(path)) {
+    expressions = path.expressions as t.Expression[];
+    source = path.quasis
+      .map((quasi, index) => quasi.value.raw + (index < expressions.length ? `\u0000${index}\u0001` : ''))
+      .join('');
+  } else {
+    return null;
+  }
+
+  const segments: PathSegment[] = [];
+  for (const part of source.split('.')) {
+    const dynamic = /^\u0000(\d+)\u0001$/.exec(part);
+
+    if (dynamic) {
+      segments.push({ property: expressions[Number(dynamic[1])], computed: true });
+    } else if (part === '' || part.includes('\u0000')) {
+      return null;
+    } else if (/^\d+$/.test(part)) {
+      segments.push({ property: t.numericLiteral(Number(part)), computed: true });
+    } else if (t.isValidIdentifier(part)) {
+      segments.push({ property: t.identifier(part), computed: false });
+    } else {
+      segments.push({ property: t.stringLiteral(part), computed: true });
+    }
+  }
+
+  return segments;
+}
+
+export function isJsx(node: t.Node): node is t.JSXElement | t.JSXFragment {
+  return t.isJSXElement(node) || t.isJSXFragment(node);
+}
+
+export function toJsxChild(expression: t.Expression): t.JSXElement | t.JSXFragment | t.JSXExpressionContainer {
+  if (!isJsx(expression)) {
+    return t.jsxExpressionContainer(expression);
+  }
+
+  // `(<form>...</form>)` from a render function: as a child, the original
+  // parentheses would be printed as text
+  if (expression.extra?.parenthesized) {
+    expression.extra = { ...expression.extra, parenthesized: false };
+  }
+  return expression;
+}
+
+/**
+ * Prefix of the comments left on patterns that need manual review
+ */
+export const TODO_MARKER = 'TODO(formik-migrate)';
+
+/**
+ * Mark a pattern left as-is with `// TODO(formik-migrate): <reason>` on the
+ * statement holding it, or `{/* TODO(formik-migrate): <reason> *\/}` right
+ * before it when it's a JSX child
+ */
+export function addTodoComment(path: NodePath, reason: string) {
+  const text = ` ${TODO_MARKER}: ${reason}`;
+
+  if (path.isJSXElement() && (path.parentPath.isJSXElement() || path.parentPath.isJSXFragment())) {
+    const placeholder = t.jsxEmptyExpression();
+    attachComment(placeholder, 'inner', `${text} `, false);
+    path.insertBefore([
+      t.jsxExpressionContainer(placeholder),
+      t.jsxText(`\n${' '.repeat(path.node.loc?.start.column ?? 0)}`),
+    ]);
+    return;
+  }
+
+  const statement = path.getStatementParent();
+  if (statement && !statement.node.leadingComments?.some((comment) => comment.value === text)) {
+    attachComment(statement.node, 'leading', text, true);
+  }
+}
@@ -0,0 +1,103 @@
+import * as path from 'path';
+
+/**
+ * Name of the shared adapter that turns a Formik `validate` function into
+ * an RHF resolver
+ */
+export const VALIDATE_RESOLVER = 'formikValidateResolver';
+
+/**
+ * Import specifier for the helper module, relative to the file importing it
+ */
+export function getHelpersImportPath(fromFile: string, helpersModule: string): string {
+  const relative = path.relative(path.dirname(fromFile), helpersModule).split(path.sep).join('/');
+  return relative.startsWith('.') ? relative : `./${relative}`;
+}
+
+/**
+ * Source of the shared helper module. The adapter accepts sync or async
+ * validate functions returning a Formik-style errors object (nested
+ * objects/arrays of message strings) and reports RHF `{ type, message }`
+ * errors.
+ */
+export function generateValidateResolver(typescript: boolean): string {
+  if (typescript) {
+    return `import type { FieldErrors, FieldValues, Resolver } from 'react-hook-form';
+
+/**
+ * Adapt a Formik \`validate\` function into a React Hook Form resolver.
+ * Generated by formik-migrate.
+ */
+export function ${VALIDATE_RESOLVER}<TValues extends FieldValues>(
+  validate: (values: TValues) => unknown
+): Resolver<TValues> {
+  return async (values) => {
+    const errors = toFieldErrors(await validate(values));
+
+    return errors
+      ? { values: {}, errors: errors as FieldErrors<TValues> }
+      : { values, errors: {} };
+  };
+}
+
+/**
+ * { email: 'Required' } → { email: { type: 'validate', message: 'Required' } }
+ */
+function toFieldErrors(value: unknown): any {
+  if (typeof value === 'string') {
+    return value ? { type: 'validate', message: value } : undefined;
+  }
+
+  if (Array.isArray(value)) {
+    const items = value.map(toFieldErrors);
+    return items.some((item) => item !== undefined) ? items : undefined;
+  }
+
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .map(([key, nested]) => [key, toFieldErrors(nested)])
+      .filter(([, nested]) => nested !== undefined);
+    return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+  }
+
+  return undefined;
+}
+`;
+  }
+
+  return `/**
+ * Adapt a Formik \`validate\` function into a React Hook Form resolver.
+ * Generated by formik-migrate.
+ */
+export function ${VALIDATE_RESOLVER}(validate) {
+  return async (values) => {
+    const errors = toFieldErrors(await validate(values));
+
+    return errors ? { values: {}, errors } : { values, errors: {} };
+  };
+}
+
+/**
+ * { email: 'Required' } → { email: { type: 'validate', message: 'Required' } }
+ */
+function toFieldErrors(value) {
+  if (typeof value === 'string') {
+    return value ? { type: 'validate', message: value } : undefined;
+  }
+
+  if (Array.isArray(value)) {
+    const items = value.map(toFieldErrors);
+    return items.some((item) => item !== undefined) ? items : undefined;
+  }
+
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .map(([key, nested]) => [key, toFieldErrors(nested)])
+      .filter(([, nested]) => nested !== undefined);
+    return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+  }
+
+  return undefined;
+}
+`;
+}
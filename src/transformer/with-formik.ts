@@ -0,0 +1,497 @@
+import type { NodePath } from '@babel/traverse';
+import * as t from '@babel/types';
+import { FormApi } from './form-api';
+import {
+  buildUseFormOptions,
+  FormikConfig,
+  getOptionPath,
+  getUseFormOptionsBlocker,
+  readFlag,
+  readFormikConfig,
+} from './form-options';
+import { collectBagReferences, planBagRewrites } from './formik-bag';
+import { getFormikTypeName } from './formik-types';
+import { planSubmitHelperRewrites } from './submit-handler';
+import {
+  formatLocation,
+  getPropertyName,
+  getRenderedExpression,
+  rendersCustomComponents,
+  resolveFunction,
+  toJsxChild,
+  uniqueName,
+} from './utils';
+
+/**
+ * `withFormik()` options the conversion understands. `displayName` only
+ * names the HOC in dev tools and goes away with it.
+ */
+const SUPPORTED_WITH_FORMIK_OPTIONS = [
+  'mapPropsToValues',
+  'handleSubmit',
+  'validationSchema',
+  'validate',
+  'validateOnChange',
+  'validateOnBlur',
+  'enableReinitialize',
+  'displayName',
+];
+
+/**
+ * Props `withFormik()` injects into the wrapped component, next to its own
+ */
+const INJECTED_PROPS = new Set([
+  'values',
+  'errors',
+  'touched',
+  'status',
+  'isSubmitting',
+  'isValidating',
+  'isValid',
+  'dirty',
+  'submitCount',
+  'initialValues',
+  'initialErrors',
+  'initialTouched',
+  'initialStatus',
+  'handleChange',
+  'handleBlur',
+  'handleSubmit',
+  'handleReset',
+  'submitForm',
+  'resetForm',
+  'validateForm',
+  'validateField',
+  'setFieldValue',
+  'setFieldTouched',
+  'setFieldError',
+  'setValues',
+  'setErrors',
+  'setTouched',
+  'setStatus',
+  'setSubmitting',
+  'setFormikState',
+  'getFieldProps',
+  'getFieldMeta',
+  'getFieldHelpers',
+  'registerField',
+  'unregisterField',
+  'validateOnChange',
+  'validateOnBlur',
+  'validateOnMount',
+]);
+
+const isInjected = (member: string) => INJECTED_PROPS.has(member);
+
+/**
+ * What the caller needs to know about a converted `withFormik()`
+ */
+export interface WithFormikConversion {
+  /** The wrapped component, which now creates the form itself */
+  component: NodePath<t.Function>;
+  api: FormApi;
+  imports: string[];
+}
+
+/**
+ * Everything a `withFormik()` conversion does, planned up front
+ */
+interface WithFormikPlan {
+  config: FormikConfig;
+  /** The wrapped component reads its props as a whole (mapPropsToValues, handleSubmit) */
+  usesProps: boolean;
+  /** `defaultValues`, once the rewrites ran */
+  defaultValues: () => t.Expression;
+  rewrites: Array<() => void>;
+}
+
+/**
+ * The component `withFormik(options)(Component)` wraps, when it is a
+ * function component of this file
+ */
+export function getWrappedComponent(path: NodePath<t.CallExpression>): NodePath<t.Function> | null {
+  const hoc = path.parentPath;
+
+  if (!hoc.isCallExpression() || hoc.node.callee !== path.node || hoc.node.arguments.length !== 1) {
+    return null;
+  }
+  return resolveFunction(hoc.get('arguments.0') as NodePath);
+}
+
+/**
+ * Check whether `withFormik(options)(Component)` can become a `useForm()`
+ * call inside the wrapped component. Returns the reason it can't, or null.
+ */
+export function getWithFormikBlocker(path: NodePath<t.CallExpression>): string | null {
+  const plan = planWithFormik(path, FormApi.object('form', path.scope), 'props');
+  return typeof plan === 'string' ? plan : null;
+}
+
+/**
+ * Convert `withFormik({ mapPropsToValues, handleSubmit, ... })(Inner)` into
+ * `useForm()` inside Inner: mapPropsToValues becomes defaultValues,
+ * handleSubmit an RHF submit handler and the injected props (`values`,
+ * `errors`, `handleChange`, ...) are rewritten onto the form. The HOC call
+ * is replaced with Inner itself. Returns the reason when it can't be converted.
+ */
+export function convertWithFormik(
+  path: NodePath<t.CallExpression>,
+  takenNames: (component: t.Node) => Set<string>
+): WithFormikConversion | string {
+  const blocker = getWithFormikBlocker(path);
+  if (blocker) {
+    return blocker;
+  }
+
+  const hoc = path.parentPath as NodePath<t.CallExpression>;
+  const innerName = (hoc.node.arguments[0] as t.Identifier).name;
+  const inner = getWrappedComponent(path)!;
+  const taken = takenNames(inner.node);
+  const [propsParam] = inner.node.params;
+  const propsName = t.isIdentifier(propsParam) ? propsParam.name : uniqueName(inner.scope, 'props', taken);
+  const formName = uniqueName(inner.scope, 'form', taken);
+  const api = FormApi.object(formName, inner.scope, taken);
+
+  const config = readFormikConfig(path.node.arguments[0] as t.ObjectExpression)!;
+  api.validateOnChange = readFlag(config, 'validateOnChange', true);
+  api.validateOnBlur = readFlag(config, 'validateOnBlur', true);
+
+  const hoisted: t.Statement[] = [];
+  if (config.handleSubmit) {
+    if (t.isIdentifier(config.handleSubmit)) {
+      api.onSubmit = config.handleSubmit;
+    } else {
+      api.onSubmit = t.identifier(uniqueName(inner.scope, 'onSubmit', taken));
+      hoisted.push(
+        t.variableDeclaration('const', [
+          t.variableDeclarator(t.cloneNode(api.onSubmit as t.Identifier), config.handleSubmit),
+        ])
+      );
+    }
+  }
+
+  const plan = planWithFormik(path, api, propsName) as WithFormikPlan;
+  plan.rewrites.forEach((rewrite) => rewrite());
+
+  // withFormik<Props, Values>() → useForm<Values>(); the handler loses the
+  // HOC's typing, so its values get the type back
+  const [ownProps, values] = path.node.typeParameters?.params ?? [];
+  stripFormikProps(inner, ownProps ?? null);
+
+  const handler = config.handleSubmit;
+  const [valuesParam] = t.isArrowFunctionExpression(handler) || t.isFunctionExpression(handler) ? handler.params : [];
+  if (values && t.isIdentifier(valuesParam) && !valuesParam.typeAnnotation) {
+    valuesParam.typeAnnotation = t.tsTypeAnnotation(t.cloneNode(values, true));
+  }
+
+  // ({ values, label }) → (props) when the props are read as a whole;
+  // the component's own props stay destructured
+  if (t.isObjectPattern(propsParam)) {
+    propsParam.properties = propsParam.properties.filter((prop) => {
+      const member = getPropertyName(prop);
+      return !member || !isInjected(member);
+    });
+
+    if (plan.usesProps) {
+      const props = t.identifier(propsName);
+      props.typeAnnotation = propsParam.typeAnnotation;
+      inner.node.params[0] = props;
+      if (propsParam.properties.length > 0) {
+        hoisted.unshift(
+          t.variableDeclaration('const', [
+            t.variableDeclarator(
+              t.objectPattern(propsParam.properties.map((prop) => t.cloneNode(prop, true, true))),
+              t.identifier(propsName)
+            ),
+          ])
+        );
+      }
+    } else if (propsParam.properties.length === 0 && inner.node.params.length === 1) {
+      inner.node.params = [];
+    }
+  } else if (!propsParam && plan.usesProps) {
+    inner.node.params = [t.identifier(propsName)];
+  }
+
+  const options = buildUseFormOptions({ ...plan.config, initialValues: plan.defaultValues() });
+  const useForm = t.callExpression(
+    t.identifier('useForm'),
+    options.properties.length > 0 ? [t.objectExpression(options.properties)] : []
+  );
+  useForm.typeParameters = values ? t.tsTypeParameterInstantiation([values]) : null;
+  api.resolver = Boolean(config.validationSchema || config.validate);
+  api.defaultValues = plan.defaultValues();
+
+  // The submit handler goes ahead of the hook, as for useFormik()
+  hoisted.push(t.variableDeclaration('const', [t.variableDeclarator(t.identifier(formName), useForm)]));
+
+  if (!t.isBlockStatement(inner.node.body)) {
+    inner.node.body = t.blockStatement([t.returnStatement(inner.node.body)]);
+  }
+  inner.node.body.body.unshift(...hoisted);
+
+  // withFormik() shared the form through context with the whole subtree
+  if (!api.provided) {
+    provideForm(inner, formName, api);
+  }
+
+  hoc.replaceWith(t.identifier(innerName));
+  inner.scope.crawl();
+
+  return {
+    component: inner,
+    api,
+    imports: ['useForm', ...(api.provided ? ['FormProvider'] : []), ...options.imports],
+  };
+}
+
+/**
+ * Plan the conversion without touching anything. `propsName` is what the
+ * wrapped component's props are read through once converted.
+ */
+function planWithFormik(path: NodePath<t.CallExpression>, api: FormApi, propsName: string): WithFormikPlan | string {
+  const location = formatLocation(path.node);
+  const hoc = path.parentPath;
+  const [arg] = hoc.isCallExpression() && hoc.node.callee === path.node ? hoc.node.arguments : [];
+
+  if (!hoc.isCallExpression() || hoc.node.arguments.length !== 1 || !t.isIdentifier(arg)) {
+    return `withFormik() is not applied directly to a component (${location})`;
+  }
+
+  const inner = getWrappedComponent(path);
+  if (!inner) {
+    return `withFormik() wraps \`${arg.name}\`, which isn't a function component in this file (${location})`;
+  }
+
+  // The wrapped component creates the form itself, so it may only be used here
+  if (path.scope.getBinding(arg.name)!.referencePaths.length !== 1 || isExported(inner)) {
+    return `\`${arg.name}\` is used outside withFormik() too (${location})`;
+  }
+
+  const optionsPath = path.get('arguments.0') as NodePath;
+  const config = optionsPath.isObjectExpression() ? readFormikConfig(optionsPath.node) : null;
+  if (!config || path.node.arguments.length !== 1) {
+    return `withFormik() options are not an object literal with plain keys (${location})`;
+  }
+  const options = optionsPath as NodePath<t.ObjectExpression>;
+
+  const unsupported = Object.keys(config).find((key) => !SUPPORTED_WITH_FORMIK_OPTIONS.includes(key));
+  if (unsupported) {
+    return `Unsupported withFormik option \`${unsupported}\` (${location})`;
+  }
+
+  // Without it, withFormik() takes every non-function prop as a value
+  if (!config.mapPropsToValues) {
+    return `withFormik() without mapPropsToValues takes its initial values from the props (${location})`;
+  }
+
+  const optionsBlocker = getUseFormOptionsBlocker({ ...config, initialValues: config.mapPropsToValues }, location);
+  if (optionsBlocker) {
+    return optionsBlocker;
+  }
+
+  // withFormik() also passes the props to validation; RHF resolvers only get the values
+  if (resolveFunction(getOptionPath(options, 'validationSchema'))) {
+    return `withFormik \`validationSchema\` is built from the props (${location})`;
+  }
+  const validate = resolveFunction(getOptionPath(options, 'validate'));
+  if (validate && validate.node.params.length > 1) {
+    return `withFormik \`validate\` reads the props (${location})`;
+  }
+
+  const defaultValues = planDefaultValues(getOptionPath(options, 'mapPropsToValues')!, propsName);
+  if (typeof defaultValues === 'string') {
+    return defaultValues;
+  }
+
+  const [propsParam] = inner.get('params');
+  if (propsParam && !propsParam.isIdentifier() && !propsParam.isObjectPattern()) {
+    return `Component wrapped by withFormik() takes its props in an unsupported way (${location})`;
+  }
+
+  // (values, { props, setSubmitting }) => ...: props are the component's
+  api.onSubmit ??= config.handleSubmit ?? null;
+  const handlerPath = getOptionPath(options, 'handleSubmit');
+  const handler = resolveFunction(handlerPath);
+  const rewrites = [...defaultValues.rewrites];
+  let usesProps = defaultValues.usesProps;
+
+  if (handler && handler.node.params.length > 1) {
+    if (handler !== handlerPath) {
+      return `withFormik \`handleSubmit\` takes the Formik bag but isn't written inline (${location})`;
+    }
+
+    const props = collectBagReferences(
+      handler.get('params.1') as NodePath<t.LVal>,
+      'the handleSubmit bag',
+      (member) => member === 'props'
+    );
+    if ('reason' in props) {
+      return props.reason;
+    }
+    props.references.forEach((ref) => {
+      rewrites.push(() => replaceReference(ref.path, t.identifier(propsName)));
+    });
+    usesProps ||= props.references.length > 0;
+  }
+
+  const helpers = planSubmitHelperRewrites(handler, api, null, (member) => member !== 'props');
+  if (helpers.reason) {
+    return helpers.reason;
+  }
+  rewrites.push(...helpers.rewrites!);
+
+  // Injected props map onto the form, the component's own stay as they are
+  if (propsParam) {
+    const plan = planBagRewrites(
+      propsParam as NodePath<t.LVal>,
+      api,
+      inner.node,
+      'the withFormik() props',
+      isInjected
+    );
+    if (plan.reason) {
+      return plan.reason;
+    }
+    rewrites.push(...plan.rewrites!);
+  }
+
+  return { config, usesProps, defaultValues: defaultValues.build, rewrites };
+}
+
+/**
+ * Plan `defaultValues` from mapPropsToValues: an inline function is
+ * inlined over the component's props (`({ user }) => ({ name: user.name })`
+ * → `{ name: props.user.name }`), anything else is called with them
+ */
+function planDefaultValues(
+  mapper: NodePath,
+  propsName: string
+): { usesProps: boolean; build: () => t.Expression; rewrites: Array<() => void> } | string {
+  const location = formatLocation(mapper.node);
+
+  if (!mapper.isFunction()) {
+    return {
+      usesProps: true,
+      build: () => t.callExpression(t.cloneNode(mapper.node as t.Expression), [t.identifier(propsName)]),
+      rewrites: [],
+    };
+  }
+
+  const fn = mapper.node as t.ArrowFunctionExpression | t.FunctionExpression;
+  if (!getRenderedExpression(fn)) {
+    return `\`mapPropsToValues\` has statements besides return (${location})`;
+  }
+
+  const rewrites: Array<() => void> = [];
+  const [param] = mapper.get('params');
+
+  if (param?.isIdentifier()) {
+    mapper.scope.getBinding(param.node.name)?.referencePaths.forEach((ref) => {
+      rewrites.push(() => replaceReference(ref, t.identifier(propsName)));
+    });
+  } else if (param?.isObjectPattern()) {
+    for (const prop of param.node.properties) {
+      const key = getPropertyName(prop);
+      if (!key || !t.isObjectProperty(prop) || !t.isIdentifier(prop.value)) {
+        return `Unsupported destructuring of the mapPropsToValues props (${formatLocation(prop)})`;
+      }
+      mapper.scope.getBinding(prop.value.name)?.referencePaths.forEach((ref) => {
+        rewrites.push(() =>
+          replaceReference(ref, t.memberExpression(t.identifier(propsName), t.identifier(key)))
+        );
+      });
+    }
+  } else if (param) {
+    return `Unsupported mapPropsToValues parameter (${location})`;
+  }
+
+  return {
+    usesProps: rewrites.length > 0,
+    build: () => {
+      // `=> ({ ... })` needed the parentheses, an option value doesn't
+      const values = t.cloneNode(getRenderedExpression(fn)!, true);
+      delete values.extra?.parenthesized;
+      return values;
+    },
+    rewrites,
+  };
+}
+
+/**
+ * Replace a reference, keeping shorthand properties (`{ user }`) valid
+ */
+function replaceReference(ref: NodePath, replacement: t.Expression) {
+  const parent = ref.parentPath;
+  if (parent?.isObjectProperty() && parent.node.shorthand && parent.node.value === ref.node) {
+    parent.node.shorthand = false;
+  }
+  ref.replaceWith(replacement);
+}
+
+/**
+ * Whether the component is exported as it is (and so usable without the HOC)
+ */
+function isExported(component: NodePath<t.Function>): boolean {
+  const declaration = component.isFunctionDeclaration() ? component : component.parentPath?.parentPath;
+  const parent = declaration?.parentPath;
+
+  return Boolean(parent?.isExportNamedDeclaration() || parent?.isExportDefaultDeclaration());
+}
+
+/**
+ * Drop `FormikProps` from the props type of the wrapped component, which
+ * no longer gets the Formik props: `(props: Props & FormikProps<Values>)`
+ * → `(props: Props)`. A bare `FormikProps<Values>` becomes the own props
+ * type given to withFormik, if any.
+ */
+function stripFormikProps(component: NodePath<t.Function>, ownProps: t.TSType | null) {
+  const [param] = component.get('params');
+  const annotation = param?.get('typeAnnotation') as NodePath | undefined;
+  if (!annotation?.isTSTypeAnnotation()) {
+    return;
+  }
+
+  const type = annotation.get('typeAnnotation');
+  const isFormikProps = (node: NodePath) =>
+    node.isTSTypeReference() && getFormikTypeName(node) === 'FormikProps';
+
+  if (isFormikProps(type)) {
+    if (ownProps) {
+      type.replaceWith(t.cloneNode(ownProps, true));
+    } else {
+      (param.node as t.Identifier | t.ObjectPattern).typeAnnotation = null;
+    }
+    return;
+  }
+
+  if (type.isTSIntersectionType()) {
+    const rest = type.get('types').filter((member) => !isFormikProps(member)).map((member) => member.node);
+    if (rest.length !== type.node.types.length) {
+      type.replaceWith(rest.length === 1 ? rest[0] : t.tsIntersectionType(rest));
+    }
+  }
+}
+
+/**
+ * Wrap what the component renders in `<FormProvider>` when it renders
+ * custom components, which may read the form through context
+ */
+function provideForm(component: NodePath<t.Function>, formName: string, api: FormApi) {
+  component.traverse({
+    Function(nested) {
+      nested.skip();
+    },
+    ReturnStatement(statement) {
+      const rendered = statement.node.argument;
+      if (rendered && (t.isJSXElement(rendered) || t.isJSXFragment(rendered)) && rendersCustomComponents(rendered)) {
+        statement.node.argument = t.jsxElement(
+          t.jsxOpeningElement(t.jsxIdentifier('FormProvider'), [t.jsxSpreadAttribute(t.identifier(formName))]),
+          t.jsxClosingElement(t.jsxIdentifier('FormProvider')),
+          [toJsxChild(rendered)]
+        );
+        api.provided = true;
+      }
+    },
+  });
+}
@@ -0,0 +1,102 @@
+/**
+ * Unified diffs of converted files - printed on dry runs and during review,
+ * or collected into one patch `git apply` accepts
+ */
+
+import chalk from 'chalk';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Hunk, structuredPatch } from 'diff';
+
+/**
+ * A file a run would write
+ */
+export interface FileChange {
+  filePath: string;
+  /** Content before the run; null for a file the run would create */
+  original: string | null;
+  converted: string;
+}
+
+/**
+ * Hunks turning `original` into `converted`, with 3 lines of context
+ */
+export function diffHunks(original: string, converted: string): Hunk[] {
+  return structuredPatch('', '', original, converted, '', '', { context: 3 }).hunks;
+}
+
+/**
+ * Print hunks in color: removed lines red, added lines green
+ */
+export function printHunks(hunks: Hunk[]) {
+  hunks.forEach((hunk) => {
+    console.log(chalk.cyan(formatHunkHeader(hunk)));
+    hunk.lines.forEach((line) => console.log(colorLine(line)));
+  });
+}
+
+/**
+ * Print the diff of a file a run would write
+ */
+export function printFileChange(change: FileChange) {
+  const name = path.relative(process.cwd(), change.filePath);
+
+  console.log(chalk.bold(`\n${change.original === null ? `${name} (new file)` : name}`));
+  printHunks(diffHunks(change.original ?? '', change.converted));
+}
+
+/**
+ * One patch with every change, in the format of `git diff`. Paths are
+ * relative to `root`, where the patch is meant to be applied.
+ */
+export function createPatch(changes: FileChange[], root: string): string {
+  return changes
+    .map((change) => {
+      const file = path.relative(root, change.filePath).split(path.sep).join('/');
+      const hunks = diffHunks(change.original ?? '', change.converted);
+      if (hunks.length === 0) {
+        return '';
+      }
+
+      const header = change.original === null
+        ? [`diff --git a/${file} b/${file}`, 'new file mode 100644', '--- /dev/null', `+++ b/${file}`]
+        : [`diff --git a/${file} b/${file}`, `--- a/${file}`, `+++ b/${file}`];
+
+      return [...header, ...hunks.flatMap((hunk) => [formatHunkHeader(hunk), ...hunk.lines])].join('\n') + '\n';
+    })
+    .join('');
+}
+
+/**
+ * The git repository a path belongs to, or the path itself outside of one
+ */
+export function findRepositoryRoot(target: string): string {
+  let current = path.resolve(target);
+
+  while (!fs.existsSync(path.join(current, '.git'))) {
+    const parent = path.dirname(current);
+    if (parent === current) {
+      return path.resolve(target);
+    }
+    current = parent;
+  }
+  return current;
+}
+
+function formatHunkHeader(hunk: Hunk): string {
+  // An empty range starts at the line before it: -0,0 for a new file
+  const oldStart = hunk.oldLines === 0 ? hunk.oldStart - 1 : hunk.oldStart;
+  const newStart = hunk.newLines === 0 ? hunk.newStart - 1 : hunk.newStart;
+
+  return `@@ -${oldStart},${hunk.oldLines} +${newStart},${hunk.newLines} @@`;
+}
+
+function colorLine(line: string): string {
+  if (line.startsWith('+')) {
+    return chalk.green(line);
+  }
+  if (line.startsWith('-')) {
+    return chalk.red(line);
+  }
+  return chalk.gray(line);
+}
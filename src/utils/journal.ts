@@ -0,0 +1,250 @@
+/**
+ * Migration journal - records every convert run so it can be rolled back
+ *
+ * Layout, in `.formik-migrate/` at the project root:
+ *   runs/<runId>.json   what a run changed, with content hashes
+ *   objects/<sha256>    original file contents, stored once per hash
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export const JOURNAL_DIR = '.formik-migrate';
+
+/**
+ * A file written by a convert run
+ */
+export interface JournalEntry {
+  /** Path relative to the project root */
+  file: string;
+  /** Hash of the content before the run; null for files the run created */
+  originalHash: string | null;
+  /** Hash of the content the run wrote */
+  convertedHash: string;
+}
+
+/**
+ * A pattern rejected during interactive review
+ */
+export interface JournalRejection {
+  /** Path relative to the project root */
+  file: string;
+  type: string;
+  line: number;
+  column: number;
+}
+
+/**
+ * One convert run
+ */
+export interface JournalRun {
+  id: string;
+  /** ISO date the run started */
+  startedAt: string;
+  /** Directory the run converted, relative to the project root */
+  directory: string;
+  files: JournalEntry[];
+  /** Patterns left as Formik during interactive review */
+  rejected?: JournalRejection[];
+  /** ISO date the run was rolled back, if it was */
+  rolledBackAt?: string;
+}
+
+/**
+ * Result of a rollback
+ */
+export interface RollbackResult {
+  /** Files put back to their original content */
+  restored: string[];
+  /** Files the run created, deleted again */
+  deleted: string[];
+  /**
+   * Files changed since the run (edited, or deleted); nothing is rolled
+   * back when there are any, unless forced
+   */
+  conflicts: string[];
+}
+
+/**
+ * Journal of the convert runs of a project
+ */
+export class MigrationJournal {
+  readonly directory: string;
+
+  constructor(readonly root: string) {
+    this.directory = path.join(root, JOURNAL_DIR);
+  }
+
+  /**
+   * Open the journal of the project a path belongs to: the nearest
+   * directory up with a package.json or .git, or the path itself
+   */
+  static forPath(target: string): MigrationJournal {
+    let current = path.resolve(target);
+
+    while (true) {
+      if (['package.json', '.git'].some((marker) => fs.existsSync(path.join(current, marker)))) {
+        return new MigrationJournal(current);
+      }
+
+      const parent = path.dirname(current);
+      if (parent === current) {
+        return new MigrationJournal(path.resolve(target));
+      }
+      current = parent;
+    }
+  }
+
+  /**
+   * Start recording a run over `directory`. Nothing is stored until a file
+   * is written.
+   */
+  beginRun(directory: string): JournalRun {
+    const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, '');
+
+    return {
+      id: `${stamp}-${crypto.randomBytes(2).toString('hex')}`,
+      startedAt: new Date().toISOString(),
+      directory: path.relative(this.root, path.resolve(directory)) || '.',
+      files: [],
+    };
+  }
+
+  /**
+   * Write a file as part of a run, keeping its original content first.
+   * The run is saved after every file so an interrupted run can still be
+   * rolled back.
+   */
+  writeFile(run: JournalRun, filePath: string, content: string) {
+    const file = path.relative(this.root, path.resolve(filePath));
+    let entry = run.files.find((candidate) => candidate.file === file);
+
+    if (!entry) {
+      const original = fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8') : null;
+      entry = { file, originalHash: original === null ? null : this.store(original), convertedHash: '' };
+      run.files.push(entry);
+    }
+
+    fs.writeFileSync(filePath, content);
+    entry.convertedHash = hash(content);
+    this.save(run);
+  }
+
+  /**
+   * Record patterns left as Formik during interactive review. They're
+   * saved with the run's files.
+   */
+  recordRejected(run: JournalRun, rejected: JournalRejection[]) {
+    run.rejected = [
+      ...(run.rejected ?? []),
+      ...rejected.map((entry) => ({ ...entry, file: path.relative(this.root, path.resolve(entry.file)) })),
+    ];
+    if (run.files.length > 0) {
+      this.save(run);
+    }
+  }
+
+  /**
+   * Every recorded run, most recent first
+   */
+  listRuns(): JournalRun[] {
+    const runsDir = path.join(this.directory, 'runs');
+    if (!fs.existsSync(runsDir)) {
+      return [];
+    }
+
+    return fs
+      .readdirSync(runsDir)
+      .filter((name) => name.endsWith('.json'))
+      .map((name) => JSON.parse(fs.readFileSync(path.join(runsDir, name), 'utf-8')) as JournalRun)
+      .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  }
+
+  /**
+   * A run by ID, or the most recent one not rolled back yet
+   */
+  getRun(id?: string): JournalRun | null {
+    const runs = this.listRuns();
+    return (id ? runs.find((run) => run.id === id) : runs.find((run) => !run.rolledBackAt)) ?? null;
+  }
+
+  /**
+   * Files of a run changed since it wrote them
+   */
+  findConflicts(run: JournalRun): string[] {
+    return run.files
+      .filter((entry) => {
+        const filePath = path.join(this.root, entry.file);
+        return !fs.existsSync(filePath) || hash(fs.readFileSync(filePath, 'utf-8')) !== entry.convertedHash;
+      })
+      .map((entry) => entry.file);
+  }
+
+  /**
+   * Put the files of a run back as they were before it. Refuses (restoring
+   * nothing) when a file changed since the run, unless `force` is set.
+   */
+  rollback(run: JournalRun, force = false): RollbackResult {
+    const result: RollbackResult = { restored: [], deleted: [], conflicts: this.findConflicts(run) };
+    if (result.conflicts.length > 0 && !force) {
+      return result;
+    }
+
+    for (const entry of run.files) {
+      const filePath = path.join(this.root, entry.file);
+
+      if (entry.originalHash === null) {
+        if (fs.existsSync(filePath)) {
+          fs.unlinkSync(filePath);
+          result.deleted.push(entry.file);
+        }
+        continue;
+      }
+
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, fs.readFileSync(path.join(this.directory, 'objects', entry.originalHash)));
+      result.restored.push(entry.file);
+    }
+
+    run.rolledBackAt = new Date().toISOString();
+    this.save(run);
+    return result;
+  }
+
+  private save(run: JournalRun) {
+    this.ensureDirectory('runs');
+    fs.writeFileSync(path.join(this.directory, 'runs', `${run.id}.json`), JSON.stringify(run, null, 2) + '\n');
+  }
+
+  /**
+   * Store content under its hash, returning the hash
+   */
+  private store(content: string): string {
+    const contentHash = hash(content);
+    const objectPath = path.join(this.ensureDirectory('objects'), contentHash);
+
+    if (!fs.existsSync(objectPath)) {
+      fs.writeFileSync(objectPath, content);
+    }
+    return contentHash;
+  }
+
+  private ensureDirectory(name: string): string {
+    const dir = path.join(this.directory, name);
+
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+      // Keep the journal out of version control without touching the project's .gitignore
+      const gitignore = path.join(this.directory, '.gitignore');
+      if (!fs.existsSync(gitignore)) {
+        fs.writeFileSync(gitignore, '*\n');
+      }
+    }
+    return dir;
+  }
+}
+
+function hash(content: string): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
@@ -0,0 +1,33 @@
+/**
+ * Optional Prettier pass over converted files
+ */
+
+import * as path from 'path';
+import { createRequire } from 'module';
+
+interface PrettierApi {
+  format(code: string, options: Record<string, unknown>): string | Promise<string>;
+  resolveConfig(filePath: string): Promise<Record<string, unknown> | null>;
+}
+
+/**
+ * Format `code` with the Prettier install and config of the project
+ * `filePath` belongs to. Prettier isn't bundled: throws when the project
+ * doesn't have it.
+ */
+export async function formatWithPrettier(code: string, filePath: string): Promise<string> {
+  const prettier = loadPrettier(filePath);
+  const config = await prettier.resolveConfig(filePath);
+
+  return prettier.format(code, { ...config, filepath: filePath });
+}
+
+function loadPrettier(filePath: string): PrettierApi {
+  const projectRequire = createRequire(path.resolve(filePath));
+
+  try {
+    return projectRequire('prettier') as PrettierApi;
+  } catch {
+    throw new Error(`Prettier is not installed for ${filePath}`);
+  }
+}
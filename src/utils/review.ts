@@ -0,0 +1,127 @@
+/**
+ * Interactive review - walk through the patterns `convert` would change in
+ * a file, one before/after hunk at a time
+ */
+
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import * as path from 'path';
+import { ConversionResult, PatternReport, SafeTransformer, TransformOptions } from '../transformer';
+import { diffHunks, printHunks } from './diff';
+
+type ReviewAnswer = 'accept' | 'reject' | 'edit' | 'skip';
+
+/**
+ * Outcome of reviewing a file
+ */
+export interface FileReview {
+  /** Conversion with the accepted patterns only; null when none was accepted */
+  result: ConversionResult | null;
+  /** Patterns rejected one by one */
+  rejected: PatternReport[];
+  /** Patterns left unreviewed by skipping the rest of the file */
+  unreviewed: PatternReport[];
+  /** Edits that no longer matched the final code and were dropped */
+  droppedEdits: number;
+}
+
+/**
+ * Review the conversion of a file pattern by pattern. Rejected and
+ * unreviewed patterns stay as Formik; the rest of the file is converted
+ * as usual.
+ */
+export async function reviewFile(filePath: string, options: TransformOptions): Promise<FileReview> {
+  const transform = (excluded: PatternReport[]) =>
+    new SafeTransformer({ ...options, exclude: excluded.map((pattern) => pattern.location) }).transformFile(filePath);
+  const key = (pattern: PatternReport) => `${pattern.location.line}:${pattern.location.column}`;
+
+  const review: FileReview = { result: null, rejected: [], unreviewed: [], droppedEdits: 0 };
+  const accepted = new Set<string>();
+  const edits: Array<{ proposed: string; edited: string }> = [];
+
+  let current = transform([]);
+  if (!current.success) {
+    return { ...review, result: current };
+  }
+
+  while (true) {
+    const pending = current.converted.filter((pattern) => !accepted.has(key(pattern)));
+    if (pending.length === 0) {
+      break;
+    }
+
+    // The change this pattern makes on top of the ones accepted so far
+    const [pattern, ...later] = pending;
+    const before = transform([...review.rejected, ...pending]);
+    const after = transform([...review.rejected, ...later]);
+    const hunks = diffHunks(before.convertedCode ?? '', after.convertedCode ?? '');
+
+    console.log(
+      chalk.bold(`\n${path.relative(process.cwd(), filePath)}:${pattern.location.line} `) +
+        chalk.cyan(pattern.type) +
+        chalk.gray(` (${accepted.size + review.rejected.length + 1} of ${accepted.size + review.rejected.length + pending.length})`)
+    );
+    printHunks(hunks);
+
+    const { answer } = await inquirer.prompt<{ answer: ReviewAnswer }>([
+      {
+        type: 'expand',
+        name: 'answer',
+        message: 'Convert this pattern?',
+        default: 0,
+        choices: [
+          { key: 'y', name: 'Accept', value: 'accept' },
+          { key: 'n', name: 'Reject (keep Formik)', value: 'reject' },
+          { key: 'e', name: 'Edit the converted code', value: 'edit' },
+          { key: 's', name: 'Skip the rest of this file (keep Formik)', value: 'skip' },
+        ],
+      },
+    ]);
+
+    if (answer === 'reject') {
+      review.rejected.push(pattern);
+      current = transform(review.rejected);
+      continue;
+    }
+
+    if (answer === 'skip') {
+      review.unreviewed = pending;
+      break;
+    }
+
+    if (answer === 'edit') {
+      for (const hunk of hunks) {
+        const proposed = hunk.lines.filter((line) => line.startsWith('+')).map((line) => line.slice(1)).join('\n');
+        if (!proposed) {
+          continue;
+        }
+
+        const { edited } = await inquirer.prompt<{ edited: string }>([
+          { type: 'editor', name: 'edited', message: 'Edit the converted code', default: `${proposed}\n` },
+        ]);
+        edits.push({ proposed, edited: edited.replace(/\n$/, '') });
+      }
+    }
+
+    accepted.add(key(pattern));
+  }
+
+  const result = transform([...review.rejected, ...review.unreviewed]);
+  if (!result.success || result.converted.length === 0) {
+    return review;
+  }
+
+  // Edits apply to the code they were made on, as long as it is still there as is
+  for (const { proposed, edited } of edits) {
+    const code = result.convertedCode!;
+    const index = code.indexOf(proposed);
+
+    if (index === -1 || code.indexOf(proposed, index + 1) !== -1) {
+      review.droppedEdits++;
+      continue;
+    }
+    result.convertedCode = code.slice(0, index) + edited + code.slice(index + proposed.length);
+  }
+
+  return { ...review, result };
+}
@@ -0,0 +1,162 @@
+/**
+ * Type-check verification - find the diagnostics a conversion introduces,
+ * with the TypeScript install and tsconfig.json of the project
+ */
+
+import * as path from 'path';
+import { createRequire } from 'module';
+import type * as TS from 'typescript';
+import type { FileChange } from './diff';
+
+/**
+ * A diagnostic of a converted file
+ */
+export interface TypeDiagnostic {
+  file: string;
+  line: number;
+  column: number;
+  code: number;
+  message: string;
+}
+
+/**
+ * Result of verifying a set of changes
+ */
+export interface VerifyResult {
+  /** Diagnostics each file would introduce, for the files introducing any */
+  introduced: Map<string, TypeDiagnostic[]>;
+  /** Files without a tsconfig.json to check them against */
+  unchecked: string[];
+}
+
+/**
+ * Type-check the changed files as they are and as they would be after the
+ * changes (kept in memory, nothing is written), against the tsconfig.json
+ * of each. Diagnostics are compared by code and message, so ones the file
+ * already had aren't reported again when the conversion moves them.
+ * Throws when the project doesn't have TypeScript.
+ */
+export function verifyChanges(changes: FileChange[]): VerifyResult {
+  const result: VerifyResult = { introduced: new Map(), unchecked: [] };
+  if (changes.length === 0) {
+    return result;
+  }
+
+  const ts = loadTypeScript(changes[0].filePath);
+
+  // Files of a monorepo may belong to different projects
+  const projects = new Map<string, FileChange[]>();
+  for (const change of changes) {
+    const configFile = ts.findConfigFile(path.dirname(change.filePath), ts.sys.fileExists);
+    if (!configFile) {
+      result.unchecked.push(change.filePath);
+      continue;
+    }
+    projects.set(configFile, [...(projects.get(configFile) ?? []), change]);
+  }
+
+  for (const [configFile, projectChanges] of projects) {
+    const config = readConfig(ts, configFile);
+    const rootNames = [...new Set([...config.fileNames, ...projectChanges.map((change) => change.filePath)])];
+    const before = ts.createProgram(rootNames, config.options);
+    const after = ts.createProgram(rootNames, config.options, createChangedHost(ts, config.options, projectChanges));
+
+    for (const change of projectChanges) {
+      // Created files (the shared helpers) are checked through the files importing them
+      if (change.original === null) {
+        continue;
+      }
+
+      const existing = new Map<string, number>();
+      getDiagnostics(ts, before, change.filePath).forEach((diagnostic) => {
+        const key = diagnosticKey(diagnostic);
+        existing.set(key, (existing.get(key) ?? 0) + 1);
+      });
+
+      const introduced = getDiagnostics(ts, after, change.filePath).filter((diagnostic) => {
+        const key = diagnosticKey(diagnostic);
+        const count = existing.get(key) ?? 0;
+        existing.set(key, count - 1);
+        return count <= 0;
+      });
+
+      if (introduced.length > 0) {
+        result.introduced.set(change.filePath, introduced);
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * `file:line:column - error TS1234: message`, as tsc prints it
+ */
+export function formatDiagnostic(diagnostic: TypeDiagnostic): string {
+  const file = path.relative(process.cwd(), diagnostic.file);
+  return `${file}:${diagnostic.line}:${diagnostic.column} - error TS${diagnostic.code}: ${diagnostic.message}`;
+}
+
+function loadTypeScript(filePath: string): typeof TS {
+  const projectRequire = createRequire(path.resolve(filePath));
+
+  try {
+    return projectRequire('typescript') as typeof TS;
+  } catch {
+    throw new Error(`TypeScript is not installed for ${filePath}`);
+  }
+}
+
+function readConfig(ts: typeof TS, configFile: string): TS.ParsedCommandLine {
+  const { config, error } = ts.readConfigFile(configFile, ts.sys.readFile);
+  if (error) {
+    throw new Error(`${configFile}: ${ts.flattenDiagnosticMessageText(error.messageText, '\n')}`);
+  }
+
+  const parsed = ts.parseJsonConfigFileContent(config, ts.sys, path.dirname(configFile), undefined, configFile);
+  return { ...parsed, options: { ...parsed.options, noEmit: true } };
+}
+
+/**
+ * Compiler host reading the changed files with their converted content
+ */
+function createChangedHost(ts: typeof TS, options: TS.CompilerOptions, changes: FileChange[]): TS.CompilerHost {
+  const host = ts.createCompilerHost(options);
+  const contents = new Map(changes.map((change) => [path.resolve(change.filePath), change.converted]));
+  const { fileExists, readFile, getSourceFile } = host;
+
+  host.fileExists = (fileName) => contents.has(path.resolve(fileName)) || fileExists.call(host, fileName);
+  host.readFile = (fileName) => contents.get(path.resolve(fileName)) ?? readFile.call(host, fileName);
+  host.getSourceFile = (fileName, languageVersion, onError, shouldCreate) => {
+    const content = contents.get(path.resolve(fileName));
+    return content === undefined
+      ? getSourceFile.call(host, fileName, languageVersion, onError, shouldCreate)
+      : ts.createSourceFile(fileName, content, languageVersion, true);
+  };
+
+  return host;
+}
+
+function getDiagnostics(ts: typeof TS, program: TS.Program, filePath: string): TypeDiagnostic[] {
+  const sourceFile = program.getSourceFile(filePath);
+  if (!sourceFile) {
+    return [];
+  }
+
+  return [...program.getSyntacticDiagnostics(sourceFile), ...program.getSemanticDiagnostics(sourceFile)]
+    .filter((diagnostic) => diagnostic.category === ts.DiagnosticCategory.Error)
+    .map((diagnostic) => {
+      const { line, character } = sourceFile.getLineAndCharacterOfPosition(diagnostic.start ?? 0);
+      return {
+        file: filePath,
+        line: line + 1,
+        column: character + 1,
+        code: diagnostic.code,
+        message: ts.flattenDiagnosticMessageText(diagnostic.messageText, ' '),
+      };
+    });
+}
+
+function diagnosticKey(diagnostic: TypeDiagnostic): string {
+  return `${diagnostic.code}:${diagnostic.message}`;
+}
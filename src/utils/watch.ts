@@ -5,12 +5,18 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { FormikAnalyzer, CodebaseAnalysis } from '../analyzer';
+import type { FormikMigratePlugin } from '../plugins';
+import type { TargetName } from '../transformer/targets';
 
 export interface WatchOptions {
   directory: string;
   onChange: (analysis: CodebaseAnalysis) => void;
   onError?: (error: Error) => void;
   debounceMs?: number;
+  /** Plugins contributing pattern detectors */
+  plugins?: FormikMigratePlugin[];
+  /** Form library the verdicts are for (default: react-hook-form) */
+  target?: TargetName;
 }
 
 export interface WatchResult {
@@ -26,9 +32,11 @@ export function watchDirectory(options: WatchOptions): WatchResult {
     onChange,
     onError,
     debounceMs = 500,
+    plugins,
+    target,
   } = options;
 
-  const analyzer = new FormikAnalyzer();
+  const analyzer = new FormikAnalyzer(plugins, target);
   let debounceTimer: NodeJS.Timeout | null = null;
   let isAnalyzing = false;
   const watchers: fs.FSWatcher[] = [];
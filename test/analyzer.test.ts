@@ -0,0 +1,16 @@
+import * as path from 'path';
+import { describe, expect, it } from 'vitest';
+import { FormikAnalyzer } from '../src/analyzer';
+
+const FIXTURES = path.join(__dirname, 'fixtures');
+
+describe('FormikAnalyzer', () => {
+  it('collects wrappers, and components passing their name on to them', async () => {
+    const analysis = await new FormikAnalyzer().analyzeCodebase(path.join(FIXTURES, 'wrappers'));
+
+    expect(analysis.wrappers.map(({ name, dependsOn, callSites }) => [name, dependsOn, callSites.length])).toEqual([
+      ['TextInput', ['useField'], 3],
+      ['AddressFields', ['TextInput'], 1],
+    ]);
+  });
+});
@@ -0,0 +1,42 @@
+import * as path from 'path';
+import { describe, expect, it } from 'vitest';
+import { createPatch } from '../src/utils/diff';
+
+const ROOT = path.resolve('/project');
+
+describe('createPatch', () => {
+  it('writes one git patch for changed and created files, leaving out unchanged ones', () => {
+    const patch = createPatch(
+      [
+        {
+          filePath: path.join(ROOT, 'src/Signup.tsx'),
+          original: "import { Formik } from 'formik';\n\nexport default Signup;\n",
+          converted: "import { useForm } from 'react-hook-form';\n\nexport default Signup;\n",
+        },
+        { filePath: path.join(ROOT, 'src/Login.tsx'), original: 'same\n', converted: 'same\n' },
+        { filePath: path.join(ROOT, 'src/formikValidateResolver.ts'), original: null, converted: 'resolver\n' },
+      ],
+      ROOT
+    );
+
+    expect(patch).toBe(
+      [
+        'diff --git a/src/Signup.tsx b/src/Signup.tsx',
+        '--- a/src/Signup.tsx',
+        '+++ b/src/Signup.tsx',
+        '@@ -1,3 +1,3 @@',
+        "-import { Formik } from 'formik';",
+        "+import { useForm } from 'react-hook-form';",
+        ' ',
+        ' export default Signup;',
+        'diff --git a/src/formikValidateResolver.ts b/src/formikValidateResolver.ts',
+        'new file mode 100644',
+        '--- /dev/null',
+        '+++ b/src/formikValidateResolver.ts',
+        '@@ -0,0 +1,1 @@',
+        '+resolver',
+        '',
+      ].join('\n')
+    );
+  });
+});
@@ -0,0 +1,13 @@
+import { Formik, Form, Field } from 'formik';
+import { AvatarPicker } from './AvatarPicker';
+
+export function Profile() {
+  return (
+    <Formik initialValues={{ email: '', avatar: '' }} onSubmit={(values) => console.log(values)}>
+      <Form>
+        <Field name="email" />
+        <Field name="avatar" component={AvatarPicker} />
+      </Form>
+    </Formik>
+  );
+}
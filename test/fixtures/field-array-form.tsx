@@ -0,0 +1,18 @@
+import { Formik, Form, FieldArray } from 'formik';
+
+export function Friends() {
+  return (
+    <Formik initialValues={{ friends: [{ name: '' }] }} onSubmit={(values) => console.log(values)}>
+      <Form>
+        <FieldArray
+          name="friends"
+          render={(arrayHelpers) => (
+            <button type="button" onClick={() => arrayHelpers.push({ name: '' })}>
+              Add ({arrayHelpers.form.values.friends.length})
+            </button>
+          )}
+        />
+      </Form>
+    </Formik>
+  );
+}
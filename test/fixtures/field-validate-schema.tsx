@@ -0,0 +1,15 @@
+import React from 'react';
+import { Formik, Form, Field } from 'formik';
+import * as Yup from 'yup';
+
+const schema = Yup.object({ email: Yup.string().email() });
+
+export function Signup() {
+  return (
+    <Formik initialValues={{ email: '' }} validationSchema={schema} onSubmit={(values) => console.log(values)}>
+      <Form>
+        <Field name="email" validate={(value: string) => (value ? undefined : 'Required')} />
+      </Form>
+    </Formik>
+  );
+}
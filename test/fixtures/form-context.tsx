@@ -0,0 +1,12 @@
+import { Field, useFormikContext } from 'formik';
+
+export function Actions() {
+  const { values, submitForm } = useFormikContext<{ a: string }>();
+
+  return (
+    <div>
+      <Field name="a" />
+      <button type="button" onClick={submitForm}>Save {values.a}</button>
+    </div>
+  );
+}
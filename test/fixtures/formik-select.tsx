@@ -0,0 +1,10 @@
+import { FormikSelect } from './FormikSelect';
+
+export function Colors(props: { select: object }) {
+  return (
+    <>
+      <FormikSelect name="color" />
+      <FormikSelect {...props.select} />
+    </>
+  );
+}
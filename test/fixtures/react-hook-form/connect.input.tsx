@@ -0,0 +1,19 @@
+import { connect, FormikContextType } from 'formik';
+
+interface Values {
+  email: string;
+}
+
+interface LabelProps {
+  label: string;
+}
+
+function Inner({ formik, label }: LabelProps & { formik: FormikContextType<Values> }) {
+  return (
+    <button type="button" onClick={() => formik.setFieldValue('email', '')}>
+      {label}
+    </button>
+  );
+}
+
+export const ClearEmail = connect(Inner);
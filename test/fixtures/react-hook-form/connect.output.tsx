@@ -0,0 +1,22 @@
+import { useFormContext, UseFormReturn } from 'react-hook-form';
+
+interface Values {
+  email: string;
+}
+
+interface LabelProps {
+  label: string;
+}
+
+function Inner({ form, label }: LabelProps & { form: UseFormReturn<Values> }) {
+  return (
+    <button type="button" onClick={() => form.setValue('email', '', {
+      shouldValidate: true,
+      shouldDirty: true
+    })}>
+      {label}
+    </button>
+  );
+}
+
+export const ClearEmail = (props: Omit<React.ComponentProps<typeof Inner>, 'form'>) => <Inner {...props} form={useFormContext()} />;
@@ -0,0 +1,38 @@
+import { Formik, Form, Field, FieldArray } from 'formik';
+
+export function Friends() {
+  return (
+    <Formik initialValues={{ friends: [{ name: '' }] }} onSubmit={(values) => console.log(values)}>
+      {({ values }) => (
+        <Form>
+          <FieldArray
+            name="friends"
+            render={(arrayHelpers) => (
+              <div>
+                {values.friends.map((friend, index) => (
+                  <div key={index}>
+                    <Field name={`friends[${index}].name`} />
+                    <button type="button" onClick={() => arrayHelpers.remove(index)}>-</button>
+                  </div>
+                ))}
+                <button type="button" onClick={() => arrayHelpers.push({ name: '' })}>+</button>
+              </div>
+            )}
+          />
+        </Form>
+      )}
+    </Formik>
+  );
+}
+
+export function Tags() {
+  return (
+    <Formik initialValues={{ tags: [''] }} onSubmit={(values) => console.log(values)}>
+      <Form>
+        <FieldArray name="tags">
+          {({ push }) => <button type="button" onClick={() => push('')}>+</button>}
+        </FieldArray>
+      </Form>
+    </Formik>
+  );
+}
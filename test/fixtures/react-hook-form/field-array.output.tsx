@@ -0,0 +1,50 @@
+import { Formik, Form, FieldArray } from 'formik';
+
+import { useForm, useFieldArray } from 'react-hook-form';
+
+export function Friends() {
+  const defaultValues = { friends: [{ name: '' }] };
+
+  const form = useForm({
+    defaultValues,
+    mode: 'all'
+  });
+
+  const onSubmit = (values: typeof defaultValues) => console.log(values);
+
+  const {
+    fields,
+    remove,
+    append
+  } = useFieldArray({
+    control: form.control,
+    name: 'friends'
+  });
+
+  return (
+    <form onSubmit={form.handleSubmit(onSubmit)}>
+      <div>
+        {fields.map((friend, index) => (
+          <div key={friend.id}>
+            <input {...form.register(`friends.${index}.name`)} type="text" />
+            <button type="button" onClick={() => remove(index)}>-</button>
+          </div>
+        ))}
+        <button type="button" onClick={() => append({ name: '' })}>+</button>
+      </div>
+    </form>
+  );
+}
+
+export function Tags() {
+  // TODO(formik-migrate): Form holds a FieldArray that needs manual review: FieldArray helper `push` adds a plain value; useFieldArray only supports arrays of objects (line 33:62)
+  return (
+    <Formik initialValues={{ tags: [''] }} onSubmit={(values) => console.log(values)}>
+      <Form>
+        <FieldArray name="tags">
+          {({ push }) => <button type="button" onClick={() => push('')}>+</button>}
+        </FieldArray>
+      </Form>
+    </Formik>
+  );
+}
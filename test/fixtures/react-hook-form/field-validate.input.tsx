@@ -0,0 +1,31 @@
+import React from 'react';
+import { Formik, Form, Field } from 'formik';
+
+function validateEmail(value: string) {
+  let error;
+  if (!value) {
+    error = 'Required';
+  }
+  return error;
+}
+
+const checkUsername = async (value: string) => (value === 'admin' ? 'Taken' : undefined);
+
+export function Signup() {
+  return (
+    <Formik initialValues={{ email: '', username: '', age: '', bio: '' }} onSubmit={(values) => console.log(values)}>
+      <Form>
+        <Field name="email" validate={validateEmail} placeholder="Email" />
+        <Field name="username" validate={checkUsername} />
+        <Field name="age" validate={(value: string) => !value && 'Required'} />
+        <Field
+          name="bio"
+          validate={(value: string) => {
+            if (!value) return '';
+            return value.length > 140 ? 'Too long' : null;
+          }}
+        />
+      </Form>
+    </Formik>
+  );
+}
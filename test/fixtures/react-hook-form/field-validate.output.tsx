@@ -0,0 +1,51 @@
+import React from 'react';
+import { useForm } from 'react-hook-form';
+
+function validateEmail(value: string) {
+  let error;
+  if (!value) {
+    error = 'Required';
+  }
+  return error;
+}
+
+const checkUsername = async (value: string) => (value === 'admin' ? 'Taken' : undefined);
+
+export function Signup() {
+  const defaultValues = { email: '', username: '', age: '', bio: '' };
+
+  const form = useForm({
+    defaultValues,
+    mode: 'all'
+  });
+
+  const onSubmit = (values: typeof defaultValues) => console.log(values);
+  return (
+    <form onSubmit={form.handleSubmit(onSubmit)}>
+      <input
+        {...form.register('email', {
+          validate: (value) => validateEmail(value) || true
+        })}
+        type="text"
+        placeholder="Email" />
+      <input
+        {...form.register('username', {
+          validate: async (value) => (await checkUsername(value)) || true
+        })}
+        type="text" />
+      <input
+        {...form.register('age', {
+          validate: (value: string) => (!value && 'Required') || true
+        })}
+        type="text" />
+      <input
+        {...form.register('bio', {
+          validate: (value: string) => {
+            if (!value) return true;
+            return value.length > 140 ? 'Too long' : true;
+          }
+        })}
+        type="text" />
+    </form>
+  );
+}
@@ -0,0 +1,37 @@
+import { Formik, Form, Field, ErrorMessage } from 'formik';
+
+interface Values {
+  email: string;
+  terms: boolean;
+}
+
+export function Signup() {
+  return (
+    <Formik<Values> initialValues={{ email: '', terms: false }} onSubmit={(values) => console.log(values.email)}>
+      {({ isSubmitting }) => (
+        <Form>
+          <Field name="email" type="email" />
+          <ErrorMessage name="email" component="p" />
+          <Field name="terms" type="checkbox" />
+          <button type="submit" disabled={isSubmitting}>Sign up</button>
+        </Form>
+      )}
+    </Formik>
+  );
+}
+
+const initialValues = { email: '' };
+
+export function Newsletter() {
+  return (
+    <Formik initialValues={initialValues} onSubmit={(values) => console.log(values.email)}>
+      <Form>
+        <Field name="email" />
+      </Form>
+    </Formik>
+  );
+}
+
+export function EmailError() {
+  return <ErrorMessage name="email" component="p" />;
+}
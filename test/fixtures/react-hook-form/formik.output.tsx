@@ -0,0 +1,49 @@
+import { useForm, useFormContext } from 'react-hook-form';
+
+interface Values {
+  email: string;
+  terms: boolean;
+}
+
+export function Signup() {
+  const form = useForm<Values>({
+    defaultValues: { email: '', terms: false },
+    mode: 'all'
+  });
+
+  const onSubmit = (values: Values) => console.log(values.email);
+  return (
+    <form onSubmit={form.handleSubmit(onSubmit)}>
+      <input {...form.register('email')} type="email" />
+      {form.formState.errors.email?.message && <p>{form.formState.errors.email.message}</p>}
+      <input {...form.register('terms')} type="checkbox" />
+      <button type="submit" disabled={form.formState.isSubmitting}>Sign up</button>
+    </form>
+  );
+}
+
+const initialValues = { email: '' };
+
+export function Newsletter() {
+  const form = useForm({
+    defaultValues: initialValues,
+    mode: 'all'
+  });
+
+  const onSubmit = (values: typeof initialValues) => console.log(values.email);
+  return (
+    <form onSubmit={form.handleSubmit(onSubmit)}>
+      <input {...form.register('email')} type="text" />
+    </form>
+  );
+}
+
+export function EmailError() {
+  const {
+    formState: {
+      errors
+    }
+  } = useFormContext();
+
+  return errors.email?.message ? <p>{errors.email.message}</p> : null;
+}
@@ -0,0 +1,39 @@
+import React from 'react';
+import { Formik, Form, Field, ErrorMessage, useFormik } from 'formik';
+
+const save = (values: object) => console.log(values);
+
+export function Profile() {
+  const formik = useFormik({ initialValues: { bio: '' }, validateOnMount: true, onSubmit: save });
+
+  return (
+    <form onSubmit={formik.handleSubmit}>
+      <textarea name="bio" onChange={formik.handleChange} value={formik.values.bio} />
+    </form>
+  );
+}
+
+export function Login() {
+  return (
+    <Formik initialValues={{ email: '' }} onSubmit={save}>
+      <Form>
+        <Field name="email" type="email" />
+        <ErrorMessage name="email" />
+      </Form>
+    </Formik>
+  );
+}
+
+export function Feedback() {
+  return (
+    <Formik initialValues={{ rating: '' }} onSubmit={save}>
+      <Form>
+        <Field name="rating" component={RatingInput} />
+      </Form>
+    </Formik>
+  );
+}
+
+function RatingInput() {
+  return null;
+}
@@ -0,0 +1,46 @@
+import React from 'react';
+import { Formik, Form, Field, useFormik } from 'formik';
+
+import { useForm } from 'react-hook-form';
+
+const save = (values: object) => console.log(values);
+
+export function Profile() {
+  // TODO(formik-migrate): Unsupported useFormik option `validateOnMount`
+  const formik = useFormik({ initialValues: { bio: '' }, validateOnMount: true, onSubmit: save });
+
+  return (
+    <form onSubmit={formik.handleSubmit}>
+      <textarea name="bio" onChange={formik.handleChange} value={formik.values.bio} />
+    </form>
+  );
+}
+
+export function Login() {
+  const form = useForm({
+    defaultValues: { email: '' },
+    mode: 'all'
+  });
+
+  return (
+    <form onSubmit={form.handleSubmit(save)}>
+      <input {...form.register('email')} type="email" />
+      {form.formState.errors.email?.message}
+    </form>
+  );
+}
+
+export function Feedback() {
+  // TODO(formik-migrate): Form holds a Field that needs manual review: Custom render/component prop needs adjustment
+  return (
+    <Formik initialValues={{ rating: '' }} onSubmit={save}>
+      <Form>
+        <Field name="rating" component={RatingInput} />
+      </Form>
+    </Formik>
+  );
+}
+
+function RatingInput() {
+  return null;
+}
@@ -0,0 +1,18 @@
+import { useFormik } from 'formik';
+
+export function A() {
+  const formik = useFormik({
+    initialValues: { a: '', b: 0 },
+    validateOnChange: false,
+    onSubmit: (values) => console.log(values),
+  });
+
+  return (
+    <form onSubmit={formik.handleSubmit}>
+      <button type="button" onClick={() => formik.setFieldValue('b', 2)}>b</button>
+      <button type="button" onClick={() => formik.setFieldTouched('a')}>a</button>
+      <button type="button" onClick={() => formik.setValues({ a: 'x', b: 1 })}>all</button>
+      <button type="button" onClick={() => formik.setValues({ a: 'x', b: 1 }, true)}>all</button>
+    </form>
+  );
+}
@@ -0,0 +1,42 @@
+import { useForm } from 'react-hook-form';
+
+export function A() {
+  const defaultValues = { a: '', b: 0 };
+  const onSubmit = (values: typeof defaultValues) => console.log(values);
+  const form = useForm({
+    defaultValues,
+    mode: 'onBlur',
+    reValidateMode: 'onBlur'
+  });
+
+  return (
+    <form onSubmit={form.handleSubmit(onSubmit)}>
+      <button type="button" onClick={() => form.setValue('b', 2, {
+        shouldValidate: false,
+        shouldDirty: true
+      })}>b</button>
+      <button type="button" onClick={() => form.setValue('a', form.getValues('a'), {
+        shouldValidate: true,
+        shouldTouch: true
+      })}>a</button>
+      <button type="button" onClick={() => form.reset({ a: 'x', b: 1 }, {
+        keepDefaultValues: true,
+        keepErrors: true,
+        keepTouched: true,
+        keepIsSubmitted: true,
+        keepSubmitCount: true
+      })}>all</button>
+      <button type="button" onClick={() => {
+        form.reset({ a: 'x', b: 1 }, {
+          keepDefaultValues: true,
+          keepErrors: true,
+          keepTouched: true,
+          keepIsSubmitted: true,
+          keepSubmitCount: true
+        });
+
+        form.trigger();
+      }}>all</button>
+    </form>
+  );
+}
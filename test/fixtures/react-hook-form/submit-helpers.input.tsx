@@ -0,0 +1,46 @@
+import { Formik, Form, useFormik, FormikHelpers } from 'formik';
+
+interface Values {
+  email: string;
+}
+
+async function save(values: Values, { resetForm }: FormikHelpers<Values>) {
+  await fetch('/save', { method: 'POST', body: JSON.stringify(values) });
+  resetForm();
+}
+
+export function Inline() {
+  const formik = useFormik<Values>({
+    initialValues: { email: '' },
+    onSubmit: async (values, { setErrors, setSubmitting }) => {
+      const response = await fetch('/check', { method: 'POST', body: values.email });
+      if (!response.ok) {
+        setErrors({ email: 'Taken' });
+      }
+      setSubmitting(false);
+    },
+  });
+
+  return <form onSubmit={formik.handleSubmit} />;
+}
+
+export function Local() {
+  function submit(values: Values, { resetForm }: FormikHelpers<Values>) {
+    console.log(values);
+    resetForm();
+  }
+
+  return (
+    <Formik initialValues={{ email: '' }} onSubmit={submit}>
+      <Form />
+    </Formik>
+  );
+}
+
+export function Outside() {
+  return (
+    <Formik initialValues={{ email: '' }} onSubmit={save}>
+      <Form />
+    </Formik>
+  );
+}
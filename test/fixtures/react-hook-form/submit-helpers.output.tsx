@@ -0,0 +1,54 @@
+import { Formik, Form, FormikHelpers } from 'formik';
+
+import { useForm } from 'react-hook-form';
+
+interface Values {
+  email: string;
+}
+
+async function save(values: Values, { resetForm }: FormikHelpers<Values>) {
+  await fetch('/save', { method: 'POST', body: JSON.stringify(values) });
+  resetForm();
+}
+
+export function Inline() {
+  const onSubmit = async (values: Values) => {
+    const response = await fetch('/check', { method: 'POST', body: values.email });
+    if (!response.ok) {
+      form.setError('email', {
+        type: 'manual',
+        message: 'Taken'
+      });
+    }
+  };
+
+  const form = useForm<Values>({
+    defaultValues: { email: '' },
+    mode: 'all'
+  });
+
+  return <form onSubmit={form.handleSubmit(onSubmit)} />;
+}
+
+export function Local() {
+  function submit(values: Values) {
+    console.log(values);
+    form.reset();
+  }
+
+  const form = useForm({
+    defaultValues: { email: '' },
+    mode: 'all'
+  });
+
+  return <form onSubmit={form.handleSubmit(submit)} />;
+}
+
+export function Outside() {
+  // TODO(formik-migrate): onSubmit handler with Formik helpers is declared outside the component (line 7:0)
+  return (
+    <Formik initialValues={{ email: '' }} onSubmit={save}>
+      <Form />
+    </Formik>
+  );
+}
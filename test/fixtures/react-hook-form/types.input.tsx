@@ -0,0 +1,37 @@
+import { useFormik, FormikErrors, FormikHelpers, FormikProps } from 'formik';
+
+interface Values {
+  email: string;
+}
+
+function validate(values: Values): FormikErrors<Values> {
+  const errors: FormikErrors<Values> = {};
+  if (!values.email) {
+    errors.email = 'Required';
+  }
+  return errors;
+}
+
+type SubmitValues = (values: Values, helpers: FormikHelpers<Values>) => void;
+
+export function Settings({ onSave }: { onSave: SubmitValues }) {
+  const formik: FormikProps<Values> = useFormik<Values>({
+    initialValues: { email: '' },
+    validate,
+    onSubmit: onSave,
+  });
+
+  return (
+    <form onSubmit={formik.handleSubmit}>
+      <input {...formik.getFieldProps('email')} />
+    </form>
+  );
+}
+
+export function Summary(props: FormikProps<Values>) {
+  return <p>{props.values.email}</p>;
+}
+
+export function Errors({ errors }: { errors: FormikErrors<Values> }) {
+  return <p>{String(errors.email)}</p>;
+}
@@ -0,0 +1,40 @@
+import { FormikErrors, FormikProps } from 'formik';
+
+import { useForm, SubmitHandler, UseFormReturn, FieldErrors } from 'react-hook-form';
+import { formikValidateResolver } from '../formikValidateResolver';
+
+interface Values {
+  email: string;
+}
+
+function validate(values: Values): FormikErrors<Values> {
+  const errors: FormikErrors<Values> = {};
+  if (!values.email) {
+    errors.email = 'Required';
+  }
+  return errors;
+}
+
+type SubmitValues = SubmitHandler<Values>;
+
+export function Settings({ onSave }: { onSave: SubmitValues }) {
+  const form: UseFormReturn<Values> = useForm<Values>({
+    defaultValues: { email: '' },
+    mode: 'all',
+    resolver: formikValidateResolver(validate)
+  });
+
+  return (
+    <form onSubmit={form.handleSubmit(onSave)}>
+      <input {...form.register('email')} />
+    </form>
+  );
+}
+
+export function Summary(props: FormikProps<Values>) {
+  return <p>{props.values.email}</p>;
+}
+
+export function Errors({ errors }: { errors: FieldErrors<Values> }) {
+  return <p>{String(errors.email)}</p>;
+}
@@ -0,0 +1,13 @@
+import { useField } from 'formik';
+
+export function TextInput(props: { name: string; label: string }) {
+  const [field, meta] = useField(props);
+
+  return (
+    <label>
+      {props.label}
+      <input {...field} />
+      {meta.touched && meta.error && <span>{meta.error}</span>}
+    </label>
+  );
+}
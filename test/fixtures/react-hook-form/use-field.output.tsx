@@ -0,0 +1,23 @@
+import { useFormContext, useController } from 'react-hook-form';
+
+export function TextInput(props: { name: string; label: string }) {
+  const {
+    control
+  } = useFormContext();
+
+  const {
+    field,
+    fieldState
+  } = useController({
+    name: props.name,
+    control
+  });
+
+  return (
+    <label>
+      {props.label}
+      <input {...field} />
+      {fieldState.isTouched && fieldState.error?.message && <span>{fieldState.error?.message}</span>}
+    </label>
+  );
+}
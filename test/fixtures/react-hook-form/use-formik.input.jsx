@@ -0,0 +1,14 @@
+import { useFormik } from 'formik';
+
+export function Login() {
+  const formik = useFormik({
+    initialValues: { email: '' },
+    onSubmit: (values) => console.log(values),
+  });
+
+  return (
+    <form onSubmit={formik.handleSubmit}>
+      <input {...formik.getFieldProps('email')} />
+    </form>
+  );
+}
@@ -0,0 +1,19 @@
+import { useFormik } from 'formik';
+
+export function Login() {
+  const formik = useFormik({
+    initialValues: { email: '', password: '' },
+    onSubmit: async (values) => {
+      await fetch('/login', { method: 'POST', body: JSON.stringify(values) });
+    },
+  });
+
+  return (
+    <form onSubmit={formik.handleSubmit}>
+      <input {...formik.getFieldProps('email')} />
+      {formik.touched.email && formik.errors.email && <p>{formik.errors.email}</p>}
+      <input type="password" {...formik.getFieldProps('password')} />
+      <button type="submit" disabled={formik.isSubmitting}>Log in</button>
+    </form>
+  );
+}
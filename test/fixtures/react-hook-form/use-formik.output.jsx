@@ -0,0 +1,15 @@
+import { useForm } from 'react-hook-form';
+
+export function Login() {
+  const onSubmit = (values) => console.log(values);
+  const form = useForm({
+    defaultValues: { email: '' },
+    mode: 'all'
+  });
+
+  return (
+    <form onSubmit={form.handleSubmit(onSubmit)}>
+      <input {...form.register('email')} />
+    </form>
+  );
+}
@@ -0,0 +1,23 @@
+import { useForm } from 'react-hook-form';
+
+export function Login() {
+  const defaultValues = { email: '', password: '' };
+
+  const onSubmit = async (values: typeof defaultValues) => {
+    await fetch('/login', { method: 'POST', body: JSON.stringify(values) });
+  };
+
+  const form = useForm({
+    defaultValues,
+    mode: 'all'
+  });
+
+  return (
+    <form onSubmit={form.handleSubmit(onSubmit)}>
+      <input {...form.register('email')} />
+      {form.formState.touchedFields.email && form.formState.errors.email?.message && <p>{form.formState.errors.email?.message}</p>}
+      <input type="password" {...form.register('password')} />
+      <button type="submit" disabled={form.formState.isSubmitting}>Log in</button>
+    </form>
+  );
+}
@@ -0,0 +1,43 @@
+import React from 'react';
+import { Formik, Form, Field, useFormik } from 'formik';
+
+interface NewsletterValues {
+  email: string;
+}
+
+const validate = (values: NewsletterValues) => {
+  const errors: Partial<NewsletterValues> = {};
+  if (!values.email) {
+    errors.email = 'Required';
+  }
+  return errors;
+};
+
+export function Newsletter() {
+  const formik = useFormik({
+    initialValues: { email: '' },
+    validate,
+    onSubmit: (values) => console.log(values),
+  });
+
+  return (
+    <form onSubmit={formik.handleSubmit}>
+      <input name="email" onChange={formik.handleChange} value={formik.values.email} />
+      <button type="submit">Subscribe</button>
+    </form>
+  );
+}
+
+export function Username() {
+  return (
+    <Formik
+      initialValues={{ name: '' }}
+      validate={async (values) => (values.name ? {} : { name: 'Required' })}
+      onSubmit={(values) => console.log(values)}
+    >
+      <Form>
+        <Field name="name" />
+      </Form>
+    </Formik>
+  );
+}
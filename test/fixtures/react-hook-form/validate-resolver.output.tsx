@@ -0,0 +1,49 @@
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { formikValidateResolver } from '../formikValidateResolver';
+
+interface NewsletterValues {
+  email: string;
+}
+
+const validate = (values: NewsletterValues) => {
+  const errors: Partial<NewsletterValues> = {};
+  if (!values.email) {
+    errors.email = 'Required';
+  }
+  return errors;
+};
+
+export function Newsletter() {
+  const defaultValues = { email: '' };
+  const onSubmit = (values: typeof defaultValues) => console.log(values);
+  const form = useForm({
+    defaultValues,
+    mode: 'all',
+    resolver: formikValidateResolver(validate)
+  });
+
+  return (
+    <form onSubmit={form.handleSubmit(onSubmit)}>
+      <input {...form.register('email')} />
+      <button type="submit">Subscribe</button>
+    </form>
+  );
+}
+
+export function Username() {
+  const defaultValues = { name: '' };
+
+  const form = useForm({
+    defaultValues,
+    mode: 'all',
+    resolver: formikValidateResolver(async (values) => (values.name ? {} : { name: 'Required' }))
+  });
+
+  const onSubmit = (values: typeof defaultValues) => console.log(values);
+  return (
+    <form onSubmit={form.handleSubmit(onSubmit)}>
+      <input {...form.register('name')} type="text" />
+    </form>
+  );
+}
@@ -0,0 +1,19 @@
+import { useFormik } from 'formik';
+
+const initialValues = { email: '' };
+const onSubmit = (values: typeof initialValues) => console.log(values);
+
+export function Defaults() {
+  const formik = useFormik({ initialValues, onSubmit });
+  return <input {...formik.getFieldProps('email')} />;
+}
+
+export function ExplicitDefaults() {
+  const formik = useFormik({ initialValues, onSubmit, validateOnChange: true, validateOnBlur: true });
+  return <input {...formik.getFieldProps('email')} />;
+}
+
+export function OnBlur() {
+  const formik = useFormik({ initialValues, onSubmit, validateOnChange: false });
+  return <input {...formik.getFieldProps('email')} />;
+}
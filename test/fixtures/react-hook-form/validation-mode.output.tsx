@@ -0,0 +1,29 @@
+import { useForm } from 'react-hook-form';
+
+const initialValues = { email: '' };
+const onSubmit = (values: typeof initialValues) => console.log(values);
+
+export function Defaults() {
+  const form = useForm({
+    defaultValues: initialValues,
+    mode: 'all'
+  });
+  return <input {...form.register('email')} />;
+}
+
+export function ExplicitDefaults() {
+  const form = useForm({
+    defaultValues: initialValues,
+    mode: 'all'
+  });
+  return <input {...form.register('email')} />;
+}
+
+export function OnBlur() {
+  const form = useForm({
+    defaultValues: initialValues,
+    mode: 'onBlur',
+    reValidateMode: 'onBlur'
+  });
+  return <input {...form.register('email')} />;
+}
@@ -0,0 +1,35 @@
+import React from 'react';
+import { withFormik, FormikProps, Field } from 'formik';
+import * as Yup from 'yup';
+
+interface Values {
+  email: string;
+  name: string;
+}
+
+interface OwnProps {
+  user: { email: string; name: string };
+  onSave: (values: Values) => void;
+}
+
+const schema = Yup.object({ email: Yup.string().required() });
+
+const InnerForm = ({ values, errors, touched, handleChange, handleSubmit, isSubmitting, title }: OwnProps & FormikProps<Values> & { title: string }) => (
+  <form onSubmit={handleSubmit}>
+    <h1>{title}</h1>
+    <input name="email" value={values.email} onChange={handleChange} />
+    {errors.email && touched.email && <span>{errors.email}</span>}
+    <Field name="name" />
+    <button type="submit" disabled={isSubmitting}>Save</button>
+  </form>
+);
+
+export default withFormik<OwnProps, Values>({
+  mapPropsToValues: ({ user }) => ({ email: user.email, name: user.name }),
+  validationSchema: schema,
+  handleSubmit: (values, { props, setSubmitting }) => {
+    props.onSave(values);
+    setSubmitting(false);
+  },
+  displayName: 'UserForm',
+})(InnerForm);
@@ -0,0 +1,48 @@
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import * as Yup from 'yup';
+
+interface Values {
+  email: string;
+  name: string;
+}
+
+interface OwnProps {
+  user: { email: string; name: string };
+  onSave: (values: Values) => void;
+}
+
+const schema = Yup.object({ email: Yup.string().required() });
+
+const InnerForm = (props: OwnProps & { title: string }) => {
+  const {
+    title
+  } = props;
+
+  const onSubmit = (values: Values) => {
+    props.onSave(values);
+  };
+
+  const form = useForm<Values>({
+    defaultValues: {
+      email: props.user.email,
+      name: props.user.name
+    },
+
+    mode: 'all',
+    resolver: yupResolver(schema)
+  });
+
+  return (
+    <form onSubmit={form.handleSubmit(onSubmit)}>
+      <h1>{title}</h1>
+      <input {...form.register('email')} />
+      {form.formState.errors.email?.message && form.formState.touchedFields.email && <span>{form.formState.errors.email?.message}</span>}
+      <input {...form.register('name')} type="text" />
+      <button type="submit" disabled={form.formState.isSubmitting}>Save</button>
+    </form>
+  );
+};
+
+export default InnerForm;
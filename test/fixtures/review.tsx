@@ -0,0 +1,20 @@
+import React from 'react';
+import { Formik, Field } from 'formik';
+
+const save = (values: object) => console.log(values);
+
+export function Login() {
+  return (
+    <Formik initialValues={{ email: '' }} onSubmit={save}>
+      <Field name="email" type="email" />
+    </Formik>
+  );
+}
+
+export function Search() {
+  return (
+    <Formik initialValues={{ query: '' }} onSubmit={save}>
+      <Field name="query" />
+    </Formik>
+  );
+}
@@ -0,0 +1,31 @@
+import { useFormik, FormikProvider, Field, FieldArray } from 'formik';
+
+export function Friends() {
+  const formik = useFormik({
+    initialValues: { friends: [{ name: '' }], nickname: '' },
+    onSubmit: (values) => console.log(values),
+  });
+
+  return (
+    <FormikProvider value={formik}>
+      <form onSubmit={formik.handleSubmit}>
+        <FieldArray name="friends">
+          {({ push, remove }) => (
+            <div>
+              {formik.values.friends.map((friend, index) => (
+                <div key={index}>
+                  <Field name={`friends[${index}].name`} />
+                  <button type="button" onClick={() => remove(index)}>-</button>
+                </div>
+              ))}
+              <button type="button" onClick={() => push({ name: '' })}>+</button>
+            </div>
+          )}
+        </FieldArray>
+        <Field name="nickname" />
+        <button type="button" onClick={() => formik.setFieldValue('friends.0.name', 'Ann')}>Ann</button>
+        <button type="submit" disabled={formik.isSubmitting}>Save</button>
+      </form>
+    </FormikProvider>
+  );
+}
@@ -0,0 +1,43 @@
+import { useForm, useStore } from '@tanstack/react-form';
+
+export function Friends() {
+  const form = useForm({
+    defaultValues: { friends: [{ name: '' }], nickname: '' },
+    onSubmit: (
+      {
+        value: values
+      }
+    ) => console.log(values),
+  });
+
+  const values = useStore(form.store, (state) => state.values);
+  const isSubmitting = useStore(form.store, (state) => state.isSubmitting);
+
+  return (
+    <form onSubmit={(event) => {
+      event.preventDefault();
+      form.handleSubmit();
+    }}>
+      <form.Field name="friends" mode="array">{(field) => (<div>
+          {values.friends.map((friend, index) => (
+            <div key={index}>
+              <form.Field name={`friends[${index}].name`}>{(field2) => <input
+                  name={`friends[${index}].name`}
+                  value={field2.state.value}
+                  onChange={(event) => field2.handleChange(event.target.value)}
+                  onBlur={field2.handleBlur} />}</form.Field>
+              <button type="button" onClick={() => field.removeValue(index)}>-</button>
+            </div>
+          ))}
+          <button type="button" onClick={() => field.pushValue({ name: '' })}>+</button>
+        </div>)}</form.Field>
+      <form.Field name="nickname">{(field) => <input
+          name="nickname"
+          value={field.state.value}
+          onChange={(event) => field.handleChange(event.target.value)}
+          onBlur={field.handleBlur} />}</form.Field>
+      <button type="button" onClick={() => form.setFieldValue('friends[0].name', 'Ann')}>Ann</button>
+      <button type="submit" disabled={isSubmitting}>Save</button>
+    </form>
+  );
+}
@@ -0,0 +1,3 @@
+export const label: string = 1;
+
+export const count: number = 1;
@@ -0,0 +1,10 @@
+import { TextInput } from './TextInput';
+
+export function AddressFields({ name }: { name: string }) {
+  return (
+    <>
+      <TextInput name={`${name}.street`} label="Street" />
+      <TextInput name={`${name}.city`} label="City" />
+    </>
+  );
+}
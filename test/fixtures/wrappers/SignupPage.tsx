@@ -0,0 +1,11 @@
+import { AddressFields } from './AddressFields';
+import { TextInput } from './TextInput';
+
+export function SignupPage() {
+  return (
+    <>
+      <TextInput name="email" label="Email" />
+      <AddressFields name="address" />
+    </>
+  );
+}
@@ -0,0 +1,11 @@
+import { useField } from 'formik';
+
+export function TextInput({ name, label }: { name: string; label: string }) {
+  const [field] = useField(name);
+  return (
+    <label>
+      {label}
+      <input {...field} />
+    </label>
+  );
+}
@@ -0,0 +1,69 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { MigrationJournal } from '../src/utils/journal';
+
+describe('MigrationJournal', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'formik-migrate-'));
+    fs.writeFileSync(path.join(root, 'package.json'), '{}\n');
+    fs.mkdirSync(path.join(root, 'src'));
+    fs.writeFileSync(path.join(root, 'src/Signup.tsx'), 'formik\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  function convert() {
+    const journal = MigrationJournal.forPath(path.join(root, 'src'));
+    const run = journal.beginRun(path.join(root, 'src'));
+    journal.writeFile(run, path.join(root, 'src/Signup.tsx'), 'react-hook-form\n');
+    journal.writeFile(run, path.join(root, 'src/formikValidateResolver.ts'), 'resolver\n');
+    return { journal, run };
+  }
+
+  it('rolls back a run, restoring changed files and deleting created ones', () => {
+    const { journal } = convert();
+
+    const run = journal.getRun()!;
+    expect(run.directory).toBe('src');
+
+    expect(journal.rollback(run)).toEqual({
+      restored: ['src/Signup.tsx'],
+      deleted: ['src/formikValidateResolver.ts'],
+      conflicts: [],
+    });
+    expect(fs.readFileSync(path.join(root, 'src/Signup.tsx'), 'utf-8')).toBe('formik\n');
+    expect(fs.existsSync(path.join(root, 'src/formikValidateResolver.ts'))).toBe(false);
+    expect(journal.getRun()).toBeNull();
+    expect(journal.listRuns()[0].rolledBackAt).toBeDefined();
+  });
+
+  it('refuses to roll back files changed since the run, unless forced', () => {
+    const { journal, run } = convert();
+    fs.writeFileSync(path.join(root, 'src/Signup.tsx'), 'edited\n');
+
+    expect(journal.rollback(run)).toEqual({ restored: [], deleted: [], conflicts: ['src/Signup.tsx'] });
+    expect(fs.readFileSync(path.join(root, 'src/Signup.tsx'), 'utf-8')).toBe('edited\n');
+    expect(fs.existsSync(path.join(root, 'src/formikValidateResolver.ts'))).toBe(true);
+    expect(run.rolledBackAt).toBeUndefined();
+
+    expect(journal.rollback(run, true)).toEqual({
+      restored: ['src/Signup.tsx'],
+      deleted: ['src/formikValidateResolver.ts'],
+      conflicts: ['src/Signup.tsx'],
+    });
+    expect(fs.readFileSync(path.join(root, 'src/Signup.tsx'), 'utf-8')).toBe('formik\n');
+  });
+
+  it('counts a file deleted since the run as a conflict', () => {
+    const { journal, run } = convert();
+    fs.unlinkSync(path.join(root, 'src/formikValidateResolver.ts'));
+
+    expect(journal.findConflicts(run)).toEqual(['src/formikValidateResolver.ts']);
+  });
+});
@@ -0,0 +1,116 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as t from '@babel/types';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { FormikMigratePlugin, loadPlugins } from '../src/plugins';
+import { SafeTransformer } from '../src/transformer';
+
+const FIXTURES = path.join(__dirname, 'fixtures');
+
+/**
+ * <FormikSelect name="color" /> → <Select name="color" control={control} />,
+ * blocked with spread props
+ */
+const selectPlugin: FormikMigratePlugin = {
+  name: 'acme-select',
+  rules: [
+    {
+      type: 'FormikSelect',
+      node: 'JSXElement',
+      match: (path) => t.isJSXIdentifier(path.node.openingElement.name, { name: 'FormikSelect' }),
+      getBlocker: (path) =>
+        path.node.openingElement.attributes.some((attr: t.Node) => t.isJSXSpreadAttribute(attr))
+          ? 'Spread props on <FormikSelect>'
+          : null,
+      transform(path, context) {
+        const form = context.resolveFormApi(path);
+        if (!form) {
+          return '<FormikSelect> outside a function component';
+        }
+
+        path.node.openingElement.name = t.jsxIdentifier('Select');
+        path.node.openingElement.attributes.push(
+          t.jsxAttribute(t.jsxIdentifier('control'), t.jsxExpressionContainer(form.member('control')))
+        );
+        return null;
+      },
+    },
+  ],
+};
+
+describe('plugin rules', () => {
+  it("don't transform patterns their blocker reports for manual review", () => {
+    const result = new SafeTransformer({ partial: true, plugins: [selectPlugin] }).transformFile(
+      path.join(FIXTURES, 'formik-select.tsx')
+    );
+
+    expect(result.converted.map(({ type }) => type)).toEqual(['FormikSelect']);
+    expect(result.skipped).toMatchObject([{ type: 'FormikSelect', reason: 'Spread props on <FormikSelect>' }]);
+    expect(result.convertedCode).toContain('<Select name="color" control={control} />');
+    expect(result.convertedCode).toContain('<FormikSelect {...props.select} />');
+  });
+
+  it('leave a file with a blocked pattern untouched by default', () => {
+    const result = new SafeTransformer({ plugins: [selectPlugin] }).transformFile(path.join(FIXTURES, 'formik-select.tsx'));
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Spread props on <FormikSelect>');
+  });
+});
+
+describe('loadPlugins', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'formik-migrate-'));
+    fs.mkdirSync(path.join(root, 'src'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  function writeConfig(plugins: string[], modules: Record<string, string> = {}) {
+    fs.writeFileSync(path.join(root, 'formik-migrate.config.js'), `module.exports = ${JSON.stringify({ plugins })};\n`);
+    Object.entries(modules).forEach(([name, code]) => fs.writeFileSync(path.join(root, name), code));
+  }
+
+  it('loads the plugins of the nearest config file, in order', () => {
+    writeConfig(['./select-rules.js', './empty.js'], {
+      'select-rules.js': `module.exports = { name: 'select', rules: [{ type: 'FormikSelect', node: 'JSXElement', match: () => false }] };\n`,
+      'empty.js': `exports.default = { name: 'empty', rules: [] };\n`,
+    });
+
+    expect(loadPlugins(path.join(root, 'src')).map(({ name, rules }) => [name, rules.length])).toEqual([
+      ['select', 1],
+      ['empty', 0],
+    ]);
+  });
+
+  it('loads nothing without a config file', () => {
+    expect(loadPlugins(path.join(root, 'src'))).toEqual([]);
+  });
+
+  it("throws for a plugin it can't find", () => {
+    writeConfig(['./missing.js']);
+
+    expect(() => loadPlugins(root)).toThrow(`Can't find plugin "./missing.js"`);
+  });
+
+  it('throws for a plugin without a name or rules', () => {
+    writeConfig(['./rules.js'], { 'rules.js': `module.exports = [];\n` });
+
+    expect(() => loadPlugins(root)).toThrow('Plugin "./rules.js" must export an object with a `name` and a `rules` array');
+  });
+
+  it('throws for an invalid rule', () => {
+    writeConfig(['./select-rules.js'], {
+      'select-rules.js': `module.exports = { name: 'select', rules: [{ type: 'FormikSelect', node: 'Identifier', match: () => false }] };\n`,
+    });
+
+    expect(() => loadPlugins(root)).toThrow(
+      'Rule 0 of plugin "select" needs a `type`, a `node` (CallExpression or JSXElement) and a `match` function'
+    );
+  });
+});
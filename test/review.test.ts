@@ -0,0 +1,60 @@
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import inquirer from 'inquirer';
+import { reviewFile } from '../src/utils/review';
+
+const FILE = path.join(__dirname, 'fixtures', 'review.tsx');
+
+vi.mock('inquirer', () => ({ default: { prompt: vi.fn() } }));
+
+/**
+ * Answer the review prompts in order
+ */
+function answer(...answers: string[]) {
+  answers.forEach((value) => vi.mocked(inquirer.prompt).mockResolvedValueOnce({ answer: value }));
+}
+
+describe('reviewFile', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.mocked(inquirer.prompt).mockReset();
+  });
+
+  it('keeps a rejected form on Formik, with its fields', async () => {
+    answer('reject', 'accept', 'accept');
+    const review = await reviewFile(FILE, { partial: true });
+
+    expect(review.rejected).toMatchObject([{ type: 'Formik', location: { line: 8 } }]);
+    expect(review.result!.converted.map(({ type, location }) => [type, location.line])).toEqual([
+      ['Formik', 16],
+      ['Field', 17],
+    ]);
+    expect(review.result!.convertedCode).toContain('<Field name="email" type="email" />');
+    expect(review.result!.convertedCode).toContain("{...form.register('query')}");
+  });
+
+  it('leaves the rest of the file unreviewed on skip', async () => {
+    answer('skip');
+    const review = await reviewFile(FILE, { partial: true });
+
+    expect(review.result).toBeNull();
+    expect(review.unreviewed.map(({ type, location }) => [type, location.line])).toEqual([
+      ['Formik', 8],
+      ['Formik', 16],
+      ['Field', 9],
+      ['Field', 17],
+    ]);
+  });
+
+  it('converts nothing when every pattern is rejected', async () => {
+    answer('reject', 'reject');
+    const review = await reviewFile(FILE, { partial: true });
+
+    expect(review.result).toBeNull();
+    expect(review.rejected.map(({ type }) => type)).toEqual(['Formik', 'Formik']);
+  });
+});
@@ -0,0 +1,129 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { describe, expect, it } from 'vitest';
+import { SafeTransformer, TransformOptions } from '../src/transformer';
+import type { TargetName } from '../src/transformer/targets';
+
+const FIXTURES = path.join(__dirname, 'fixtures');
+
+/**
+ * Convert a fixture the way `convert --partial` does, so patterns left for
+ * manual review show up as TODO comments in the output
+ */
+function convert(file: string, options: TransformOptions = {}) {
+  return new SafeTransformer({
+    partial: true,
+    helpersModule: path.join(FIXTURES, 'formikValidateResolver'),
+    ...options,
+  }).transformFile(file);
+}
+
+/**
+ * Every `<name>.input.<ext>` fixture converts to `<name>.output.<ext>`, with
+ * the target its directory is named after
+ */
+describe.each(['react-hook-form', 'tanstack-form'] as TargetName[])('%s fixtures', (target) => {
+  const directory = path.join(FIXTURES, target);
+  const inputs = fs.readdirSync(directory).filter((file) => /\.input\.[jt]sx?$/.test(file));
+
+  it.each(inputs)('%s', (input) => {
+    const result = convert(path.join(directory, input), { target });
+    const expected = fs.readFileSync(path.join(directory, input.replace('.input.', '.output.')), 'utf-8');
+
+    expect(result.error).toBeUndefined();
+    expect(result.convertedCode).toBe(expected);
+  });
+});
+
+describe('SafeTransformer', () => {
+  it('warns that useField(props) only passes the name on', () => {
+    const result = convert(path.join(FIXTURES, 'react-hook-form', 'use-field.input.tsx'));
+
+    expect(result.warnings).toContainEqual(expect.stringContaining('other field options in `props`'));
+  });
+
+  it('warns about FormikProps whose members have no UseFormReturn equivalent', () => {
+    const result = convert(path.join(FIXTURES, 'react-hook-form', 'types.input.tsx'));
+
+    expect(result.warnings).toContainEqual(expect.stringContaining("`FormikProps` types code reading `values`"));
+  });
+
+  it("doesn't report updated imports when nothing was converted", () => {
+    const result = convert(path.join(FIXTURES, 'react-hook-form', 'use-field.input.tsx'), { target: 'tanstack-form' });
+
+    expect(result.converted).toEqual([]);
+    expect(result.changes).toEqual([]);
+  });
+
+  it('converts the forms it can in partial mode, leaving a TODO on the others', () => {
+    const result = convert(path.join(FIXTURES, 'react-hook-form', 'partial.input.tsx'));
+
+    expect(result.converted.map(({ type }) => type)).toEqual(['Formik', 'Form', 'Field', 'ErrorMessage']);
+    expect(result.skipped.map(({ type, reason }) => [type, reason])).toEqual([
+      ['useFormik', 'Unsupported useFormik option `validateOnMount`'],
+      ['Formik', 'Form holds a Field that needs manual review: Custom render/component prop needs adjustment'],
+      ['Form', 'Belongs to a Formik form left for manual review'],
+      ['Field', 'Belongs to a Formik form left for manual review'],
+    ]);
+  });
+
+  it('leaves a file with a pattern needing manual review untouched outside partial mode', () => {
+    const result = convert(path.join(FIXTURES, 'react-hook-form', 'partial.input.tsx'), { partial: false });
+
+    expect(result.success).toBe(false);
+    expect(result.converted).toEqual([]);
+    expect(result.error).toBe(
+      'File contains complex patterns that need manual review: Unsupported useFormik option `validateOnMount`; Custom render/component prop needs adjustment'
+    );
+  });
+
+  it("leaves a field's validate alone when its form validates through a resolver", () => {
+    const result = convert(path.join(FIXTURES, 'field-validate-schema.tsx'), { partial: false });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('<Field validate> would be ignored: its form validates through a resolver (line 11:8)');
+  });
+
+  it('reports the validate resolver helper the converted code imports', () => {
+    const result = convert(path.join(FIXTURES, 'react-hook-form', 'validate-resolver.input.tsx'));
+
+    expect(result.helpers).toEqual(['formikValidateResolver']);
+  });
+
+  it('leaves a file whose form holds a field needing manual review untouched', () => {
+    const result = convert(path.join(FIXTURES, 'custom-field.tsx'), { partial: false });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Custom render/component prop needs adjustment');
+  });
+
+  it('keeps a form holding a field needing manual review on Formik in partial mode', () => {
+    const result = convert(path.join(FIXTURES, 'custom-field.tsx'));
+
+    expect(result.converted).toEqual([]);
+    expect(result.skipped.map(({ type }) => type)).toEqual(['Formik', 'Form', 'Field', 'Field']);
+    expect(result.convertedCode).toContain('<Formik initialValues');
+  });
+
+  it('leaves a file whose field array reads Formik state through `form` untouched', () => {
+    const result = convert(path.join(FIXTURES, 'field-array-form.tsx'), { partial: false });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('FieldArray helpers read Formik state through `form`');
+  });
+
+  it('keeps a form holding a field array needing manual review on Formik in partial mode', () => {
+    const result = convert(path.join(FIXTURES, 'field-array-form.tsx'));
+
+    expect(result.converted).toEqual([]);
+    expect(result.convertedCode).toContain("import { Formik, Form, FieldArray } from 'formik';");
+  });
+
+  it('keeps the fields next to a useFormikContext() left as-is on Formik', () => {
+    const result = convert(path.join(FIXTURES, 'form-context.tsx'));
+
+    expect(result.converted).toEqual([]);
+    expect(result.skipped.map(({ type }) => type)).toEqual(['useFormikContext', 'Field']);
+    expect(result.convertedCode).not.toContain('useFormContext');
+  });
+});
@@ -0,0 +1,29 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { describe, expect, it } from 'vitest';
+import { verifyChanges } from '../src/utils/typecheck';
+
+const FILE = path.join(__dirname, 'fixtures/typecheck/count.ts');
+
+describe('verifyChanges', () => {
+  it('reports the diagnostics a change introduces, not the ones the file already had', () => {
+    const original = fs.readFileSync(FILE, 'utf-8');
+    const result = verifyChanges([
+      { filePath: FILE, original, converted: `export const count: number = '1';\n\nexport const label: string = 1;\n` },
+    ]);
+
+    expect(result.unchecked).toEqual([]);
+    expect(result.introduced.get(FILE)).toMatchObject([
+      { line: 1, code: 2322, message: "Type 'string' is not assignable to type 'number'." },
+    ]);
+    // Nothing is written
+    expect(fs.readFileSync(FILE, 'utf-8')).toBe(original);
+  });
+
+  it("doesn't report a change introducing no diagnostics", () => {
+    const original = fs.readFileSync(FILE, 'utf-8');
+    const result = verifyChanges([{ filePath: FILE, original, converted: original.replace('count', 'total') }]);
+
+    expect(result.introduced.size).toBe(0);
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { generateValidateResolver, VALIDATE_RESOLVER } from '../src/transformer/validate-resolver';
+
+type Resolver = (values: object) => Promise<{ values: object; errors: object }>;
+
+/**
+ * The adapter of the generated JS helpers module
+ */
+const formikValidateResolver = new Function(
+  `${generateValidateResolver(false).replace(/^export /gm, '')}\nreturn ${VALIDATE_RESOLVER};`
+)() as (validate: (values: object) => unknown) => Resolver;
+
+describe('formikValidateResolver', () => {
+  it('reports the messages of a Formik errors object as RHF errors', async () => {
+    const resolver = formikValidateResolver(() => ({
+      email: 'Required',
+      name: '',
+      address: { city: 'Required' },
+      friends: [undefined, { name: 'Too short' }],
+    }));
+
+    expect(await resolver({ email: '' })).toEqual({
+      values: {},
+      errors: {
+        email: { type: 'validate', message: 'Required' },
+        address: { city: { type: 'validate', message: 'Required' } },
+        friends: [undefined, { name: { type: 'validate', message: 'Too short' } }],
+      },
+    });
+  });
+
+  it('passes the values on when an async validate finds no errors', async () => {
+    const resolver = formikValidateResolver(async () => ({ email: undefined, friends: [] }));
+
+    expect(await resolver({ email: 'ada@example.com' })).toEqual({ values: { email: 'ada@example.com' }, errors: {} });
+  });
+});